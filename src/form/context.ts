@@ -5,13 +5,23 @@ import Instance from '@/form/instance';
 type Context = {
 	instance: Instance;
 	locked: boolean;
+	revalidateOn: Instance.ValidateOn;
+	showErrors: Instance.ShowErrors;
 	submit: (e: FormEvent<HTMLFormElement> | KeyboardEvent<HTMLElement>) => void;
+	validateOn: Instance.ValidateOn;
 };
 
 const context = createContext<Context>({
 	instance: null!,
 	locked: false,
-	submit: () => {}
+	revalidateOn: 'change',
+	showErrors: 'always',
+	submit: () => {},
+	validateOn: 'change'
 });
 
+// holds only the instance, which never changes, so selective subscribers are not re-rendered by every form change
+const instanceContext = createContext<Instance>(null!);
+
+export { instanceContext };
 export default context;
@@ -1,4 +1,4 @@
-import { createRef } from 'react';
+import { createRef, memo } from 'react';
 import { describe, expect, it, vi } from 'vitest';
 import { fireEvent, render, screen } from '@testing-library/react';
 
@@ -36,15 +36,26 @@ describe('/form', () => {
 		expect(onInit).toHaveBeenCalledWith({
 			changed: false,
 			changesCount: 0,
+			dirty: false,
 			errors: {},
 			errorsCount: 0,
 			instance: expect.any(Form.Instance),
+			isSubmitting: false,
 			lastChange: expect.any(Number),
 			lastSubmit: expect.any(Number),
+			lastSubmitResult: null,
 			requiredErrorsCount: 0,
+			submitCount: 0,
+			submitError: null,
+			touched: {},
+			validating: false,
+			validatingFields: {},
 			value: {
 				name: 'Felipe Rohde'
-			}
+			},
+			visited: {},
+			warnings: {},
+			warningsCount: 0
 		});
 	});
 
@@ -75,16 +86,63 @@ describe('/form', () => {
 		expect(onSubmit).toHaveBeenCalledWith({
 			changed: false,
 			changesCount: 0,
+			dirty: false,
 			errors: {},
 			errorsCount: 0,
 			instance: expect.any(Form.Instance),
+			isSubmitting: true,
 			lastChange: expect.any(Number),
 			lastSubmit: expect.any(Number),
+			lastSubmitResult: null,
 			requiredErrorsCount: 0,
-			value: { name: 'Felipe Rohde' }
+			submitCount: 1,
+			submitError: null,
+			touched: {},
+			validating: false,
+			validatingFields: {},
+			value: { name: 'Felipe Rohde' },
+			visited: {},
+			warnings: {},
+			warningsCount: 0
 		});
 	});
 
+	it('should submit a merge patch with submitFormat', () => {
+		const onSubmit = vi.fn();
+
+		render(
+			<Form
+				onSubmit={onSubmit}
+				submitFormat='mergePatch'
+				value={{ age: 30, name: 'Felipe Rohde' }}
+			>
+				<Form.Item path={['name']}>
+					<input
+						data-testid='name'
+						type='text'
+					/>
+				</Form.Item>
+
+				<button
+					data-testid='submit'
+					type='submit'
+				>
+					Submit
+				</button>
+			</Form>
+		);
+
+		fireEvent.change(screen.getByTestId('name'), { target: { value: 'Felipe' } });
+		fireEvent.click(screen.getByTestId('submit'));
+
+		expect(onSubmit).toHaveBeenCalledWith(
+			expect.objectContaining({
+				mergePatch: { name: 'Felipe' },
+				value: { age: 30, name: 'Felipe' }
+			})
+		);
+	});
+
 	it('should handle basic form submission with Form.Submit', () => {
 		const onSubmit = vi.fn();
 		const value = { name: 'Felipe Rohde' };
@@ -118,14 +176,65 @@ describe('/form', () => {
 		expect(onSubmit).toHaveBeenCalledWith({
 			changed: false,
 			changesCount: 0,
+			dirty: false,
 			errors: {},
 			errorsCount: 0,
 			instance: expect.any(Form.Instance),
+			isSubmitting: true,
 			lastChange: expect.any(Number),
 			lastSubmit: expect.any(Number),
+			lastSubmitResult: null,
 			requiredErrorsCount: 0,
-			value: { name: 'Felipe Rohde' }
+			submitCount: 1,
+			submitError: null,
+			touched: {},
+			validating: false,
+			validatingFields: {},
+			value: { name: 'Felipe Rohde' },
+			visited: {},
+			warnings: {},
+			warningsCount: 0
+		});
+	});
+
+	it('should expose async submit state to Form.Submit', async () => {
+		let resolve: (value: string) => void = () => {};
+		const onSubmit = vi.fn(() => {
+			return new Promise<string>(resolve_ => {
+				resolve = resolve_;
+			});
 		});
+
+		render(
+			<Form onSubmit={onSubmit}>
+				<Form.Submit>
+					{({ isSubmitting, lastSubmitResult, submit, submitCount }) => {
+						return (
+							<button
+								data-testid='submit'
+								disabled={isSubmitting}
+								onClick={submit}
+							>
+								{`${submitCount}:${lastSubmitResult}`}
+							</button>
+						);
+					}}
+				</Form.Submit>
+			</Form>
+		);
+
+		fireEvent.click(screen.getByTestId('submit'));
+		fireEvent.click(screen.getByTestId('submit'));
+		await wait(0);
+
+		expect(onSubmit).toHaveBeenCalledTimes(1);
+		expect(screen.getByTestId('submit')).toBeDisabled();
+
+		resolve('saved');
+		await wait(0);
+
+		expect(screen.getByTestId('submit')).not.toBeDisabled();
+		expect(screen.getByTestId('submit').textContent).toEqual('1:saved');
 	});
 
 	it('should handle basic form submission with Form.dispatchSubmit', () => {
@@ -151,13 +260,24 @@ describe('/form', () => {
 		expect(onSubmit).toHaveBeenCalledWith({
 			changed: false,
 			changesCount: 0,
+			dirty: false,
 			errors: {},
 			errorsCount: 0,
 			instance: expect.any(Form.Instance),
+			isSubmitting: true,
 			lastChange: expect.any(Number),
 			lastSubmit: expect.any(Number),
+			lastSubmitResult: null,
 			requiredErrorsCount: 0,
-			value: { name: 'Felipe Rohde' }
+			submitCount: 1,
+			submitError: null,
+			touched: {},
+			validating: false,
+			validatingFields: {},
+			value: { name: 'Felipe Rohde' },
+			visited: {},
+			warnings: {},
+			warningsCount: 0
 		});
 	});
 
@@ -187,13 +307,24 @@ describe('/form', () => {
 		expect(onSubmit).toHaveBeenCalledWith({
 			changed: false,
 			changesCount: 0,
+			dirty: true,
 			errors: { name: 'Required Field.' },
 			errorsCount: 1,
 			instance: expect.any(Form.Instance),
+			isSubmitting: true,
 			lastChange: expect.any(Number),
 			lastSubmit: expect.any(Number),
+			lastSubmitResult: null,
 			requiredErrorsCount: 1,
-			value: { name: '' }
+			submitCount: 1,
+			submitError: null,
+			touched: {},
+			validating: false,
+			validatingFields: {},
+			value: { name: '' },
+			visited: {},
+			warnings: {},
+			warningsCount: 0
 		});
 	});
 
@@ -230,13 +361,24 @@ describe('/form', () => {
 		expect(onSubmit).toHaveBeenCalledWith({
 			changed: false,
 			changesCount: 0,
+			dirty: true,
 			errors: { name: 'Name must be at least 3 characters' },
 			errorsCount: 1,
 			instance: expect.any(Form.Instance),
+			isSubmitting: true,
 			lastChange: expect.any(Number),
 			lastSubmit: expect.any(Number),
+			lastSubmitResult: null,
 			requiredErrorsCount: 1,
-			value: { name: 'ab' }
+			submitCount: 1,
+			submitError: null,
+			touched: {},
+			validating: false,
+			validatingFields: {},
+			value: { name: 'ab' },
+			visited: {},
+			warnings: {},
+			warningsCount: 0
 		});
 	});
 
@@ -268,13 +410,24 @@ describe('/form', () => {
 		expect(onSubmit).toHaveBeenCalledWith({
 			changed: false,
 			changesCount: 0,
+			dirty: true,
 			errors: { name: 'Required Field.' },
 			errorsCount: 1,
 			instance: expect.any(Form.Instance),
+			isSubmitting: true,
 			lastChange: expect.any(Number),
 			lastSubmit: expect.any(Number),
+			lastSubmitResult: null,
 			requiredErrorsCount: 1,
-			value: { name: '' }
+			submitCount: 1,
+			submitError: null,
+			touched: {},
+			validating: false,
+			validatingFields: {},
+			value: { name: '' },
+			visited: {},
+			warnings: {},
+			warningsCount: 0
 		});
 
 		fireEvent.change(screen.getByTestId('text'), {
@@ -286,64 +439,44 @@ describe('/form', () => {
 		expect(onSubmit).toHaveBeenCalledWith({
 			changed: false,
 			changesCount: 0,
+			dirty: true,
 			errors: {},
 			errorsCount: 0,
 			instance: expect.any(Form.Instance),
+			isSubmitting: true,
 			lastChange: expect.any(Number),
 			lastSubmit: expect.any(Number),
+			lastSubmitResult: undefined,
 			requiredErrorsCount: 0,
-			value: { name: 'Felipe Rohde' }
+			submitCount: 2,
+			submitError: null,
+			touched: {},
+			validating: false,
+			validatingFields: {},
+			value: { name: 'Felipe Rohde' },
+			visited: {},
+			warnings: {},
+			warningsCount: 0
 		});
 	});
 
-	describe('Form.List', () => {
-		it('should handle adding and removing items', async () => {
+	describe('invalid submit', () => {
+		it('should call onInvalidSubmit instead of onSubmit when blockInvalidSubmit is set', () => {
+			const onInvalidSubmit = vi.fn();
 			const onSubmit = vi.fn();
 
 			render(
-				<Form onSubmit={onSubmit}>
-					<Form.List path={['items']}>
-						<Form.List.Items>
-							{props => {
-								return (
-									<div>
-										<Form.Item path={[...props.path, 'name']}>
-											<input
-												data-testid='text'
-												type='text'
-											/>
-										</Form.Item>
-
-										<button
-											data-testid={`remove-${props.index}`}
-											onClick={e => {
-												e.preventDefault();
-												return props.remove();
-											}}
-										>
-											Remove
-										</button>
-									</div>
-								);
-							}}
-						</Form.List.Items>
-
-						<Form.List.Add>
-							{props => {
-								return (
-									<button
-										data-testid='add'
-										onClick={e => {
-											e.preventDefault();
-											return props.add({ name: '' });
-										}}
-									>
-										Add Item
-									</button>
-								);
-							}}
-						</Form.List.Add>
-					</Form.List>
+				<Form
+					blockInvalidSubmit
+					onInvalidSubmit={onInvalidSubmit}
+					onSubmit={onSubmit}
+				>
+					<Form.Item
+						path={['name']}
+						required
+					>
+						<input type='text' />
+					</Form.Item>
 
 					<button
 						data-testid='submit'
@@ -354,136 +487,1510 @@ describe('/form', () => {
 				</Form>
 			);
 
-			fireEvent.click(screen.getByTestId('add'));
-			fireEvent.click(screen.getByTestId('add'));
-			fireEvent.click(screen.getByTestId('add'));
-			await wait(20);
-
-			expect(screen.getAllByTestId('text')).toHaveLength(3);
-			fireEvent.click(screen.getByTestId('remove-0'));
-			await wait(20);
-			expect(screen.getAllByTestId('text')).toHaveLength(2);
-
 			fireEvent.click(screen.getByTestId('submit'));
-			expect(onSubmit).toHaveBeenCalledWith({
-				changed: true,
-				changesCount: 2,
-				errors: {},
-				errorsCount: 0,
-				instance: expect.any(Form.Instance),
-				lastChange: expect.any(Number),
-				lastSubmit: expect.any(Number),
-				requiredErrorsCount: 0,
-				value: {
-					items: [{ name: '' }, { name: '' }]
-				}
-			});
+
+			expect(onSubmit).not.toHaveBeenCalled();
+			expect(onInvalidSubmit).toHaveBeenCalledWith(
+				expect.objectContaining({
+					errors: { name: 'Required Field.' },
+					requiredErrorsCount: 1
+				})
+			);
 		});
-	});
 
-	describe('Form.Value', () => {
-		it('should render the value at the specified path', () => {
-			const initialValue = {
-				user: {
-					name: 'John Doe',
-					email: 'john@example.com'
-				}
-			};
+		it('should still call onSubmit for invalid forms by default', () => {
+			const onSubmit = vi.fn();
 
 			render(
-				<Form value={initialValue}>
-					<Form.Value path={['user', 'name']}>{({ value }) => <div data-testid='name-value'>{value}</div>}</Form.Value>
+				<Form onSubmit={onSubmit}>
+					<Form.Item
+						path={['name']}
+						required
+					>
+						<input type='text' />
+					</Form.Item>
+
+					<button
+						data-testid='submit'
+						type='submit'
+					>
+						Submit
+					</button>
 				</Form>
 			);
 
-			expect(screen.getByTestId('name-value').textContent).toBe('John Doe');
+			fireEvent.click(screen.getByTestId('submit'));
+
+			expect(onSubmit).toHaveBeenCalled();
 		});
 
-		it('should update when the form value changes', async () => {
-			const initialValue = {
-				user: {
-					name: 'John Doe',
-					email: 'john@example.com'
-				}
-			};
+		it('should focus and scroll to the first invalid item', () => {
+			const scrollIntoView = vi.fn();
+
+			HTMLElement.prototype.scrollIntoView = scrollIntoView;
 
 			render(
-				<Form value={initialValue}>
+				<Form
+					blockInvalidSubmit
+					focusInvalid
+					onSubmit={vi.fn()}
+				>
+					<Form.Item path={['name']}>
+						<input data-testid='name' />
+					</Form.Item>
+
 					<Form.Item
-						debounce={0}
-						path={['user', 'name']}
+						path={['email']}
+						required
 					>
-						{({ value, onChange }) => (
-							<input
-								data-testid='name-input'
-								value={value}
-								onChange={e => {
-									onChange(e.target.value);
-								}}
-							/>
-						)}
+						<input data-testid='email' />
 					</Form.Item>
-					<Form.Value path={['user', 'name']}>
-						{({ value }) => {
-							return <div data-testid='name-display'>{value}</div>;
-						}}
-					</Form.Value>
+
+					<Form.Item
+						path={['phone']}
+						required
+					>
+						<input data-testid='phone' />
+					</Form.Item>
+
+					<button
+						data-testid='submit'
+						type='submit'
+					>
+						Submit
+					</button>
 				</Form>
 			);
 
-			// Initial value check
-			expect(screen.getByTestId('name-display').textContent).toBe('John Doe');
-
-			// Change the input value
-			fireEvent.change(screen.getByTestId('name-input'), {
-				target: { value: 'Jane Smith' }
-			});
+			fireEvent.click(screen.getByTestId('submit'));
 
-			await wait(50);
+			expect(document.activeElement).toBe(screen.getByTestId('email'));
+			expect(scrollIntoView).toHaveBeenCalledTimes(1);
 
-			// Check if the display is updated
-			expect(screen.getByTestId('name-display').textContent).toBe('Jane Smith');
+			// @ts-ignore - restore jsdom default
+			delete HTMLElement.prototype.scrollIntoView;
 		});
 
-		it('should work with nested Form.Value components', () => {
-			const initialValue = {
-				user: {
-					name: 'John Doe',
-					address: {
-						city: 'New York',
-						country: 'USA'
-					}
-				}
-			};
+		it('should focus invalid items rendered by functions', () => {
+			const onInvalidSubmit = vi.fn();
 
 			render(
-				<Form value={initialValue}>
-					<Form.Value path={['user']}>
-						{({ value: user }) => (
-							<div>
-								<div data-testid='user-name'>{user.name}</div>
-								<Form.Value path={['user', 'address']}>
-									{({ value: address }) => (
-										<div>
-											<div data-testid='user-city'>{address.city}</div>
-											<div data-testid='user-country'>{address.country}</div>
-										</div>
-									)}
-								</Form.Value>
-							</div>
+				<Form
+					blockInvalidSubmit
+					focusInvalid
+					onInvalidSubmit={onInvalidSubmit}
+					onSubmit={vi.fn()}
+				>
+					<Form.Item
+						path={['email']}
+						required
+					>
+						{({ 'data-id': id, onChange, value }) => (
+							<input
+								data-id={id}
+								data-testid='email'
+								onChange={e => onChange(e.target.value)}
+								value={value || ''}
+							/>
 						)}
-					</Form.Value>
+					</Form.Item>
+
+					<button
+						data-testid='submit'
+						type='submit'
+					>
+						Submit
+					</button>
 				</Form>
 			);
 
-			expect(screen.getByTestId('user-name').textContent).toBe('John Doe');
-			expect(screen.getByTestId('user-city').textContent).toBe('New York');
-			expect(screen.getByTestId('user-country').textContent).toBe('USA');
+			fireEvent.click(screen.getByTestId('submit'));
+
+			expect(onInvalidSubmit).toHaveBeenCalled();
+			expect(document.activeElement).toBe(screen.getByTestId('email'));
 		});
+	});
 
-		it('should throw an error when used outside of a Form', () => {
-			// Suppress console.error for this test
-			const originalConsoleError = console.error;
+	describe('async validation', () => {
+		it('should set error from async required and expose validating', async () => {
+			const states: boolean[] = [];
+
+			render(
+				<Form>
+					<Form.Item
+						debounce={0}
+						path={['username']}
+						required={async ({ value }) => {
+							await wait(10);
+
+							return value === 'taken' ? 'Username already taken.' : false;
+						}}
+					>
+						{({ error, onChange, validating, value }) => {
+							states.push(validating);
+
+							return (
+								<div>
+									<input
+										data-testid='username'
+										onChange={onChange}
+										value={value}
+									/>
+									<span data-testid='error'>{error as string}</span>
+								</div>
+							);
+						}}
+					</Form.Item>
+				</Form>
+			);
+
+			fireEvent.change(screen.getByTestId('username'), { target: { value: 'taken' } });
+
+			await wait(5);
+			expect(states[states.length - 1]).toEqual(true);
+
+			await wait(20);
+			expect(states[states.length - 1]).toEqual(false);
+			expect(screen.getByTestId('error').textContent).toEqual('Username already taken.');
+		});
+
+		it('should discard stale async results when value changes', async () => {
+			const instance = new Form.Instance();
+			const signals: AbortSignal[] = [];
+
+			render(
+				<Form instance={instance}>
+					<Form.Item
+						debounce={0}
+						path={['username']}
+						required={async ({ signal, value }) => {
+							signals.push(signal);
+							await wait(value === 'slow' ? 30 : 5);
+
+							return value === 'slow' ? 'Stale error.' : false;
+						}}
+					>
+						<input data-testid='username' />
+					</Form.Item>
+				</Form>
+			);
+
+			fireEvent.change(screen.getByTestId('username'), { target: { value: 'slow' } });
+			await wait(5);
+			fireEvent.change(screen.getByTestId('username'), { target: { value: 'fast' } });
+			await wait(50);
+
+			expect(signals[0].aborted).toEqual(true);
+			expect(signals[1].aborted).toEqual(false);
+			expect(instance.getError(['username'])).toBeNull();
+			expect(instance.isValidating()).toEqual(false);
+		});
+
+		it('should wait for in-flight validations before calling onSubmit', async () => {
+			const onSubmit = vi.fn();
+
+			render(
+				<Form onSubmit={onSubmit}>
+					<Form.Item
+						path={['username']}
+						required={async () => {
+							await wait(10);
+
+							return 'Username already taken.';
+						}}
+					>
+						<input type='text' />
+					</Form.Item>
+
+					<button
+						data-testid='submit'
+						type='submit'
+					>
+						Submit
+					</button>
+				</Form>
+			);
+
+			fireEvent.click(screen.getByTestId('submit'));
+			expect(onSubmit).not.toHaveBeenCalled();
+
+			await wait(20);
+
+			expect(onSubmit).toHaveBeenCalledWith(
+				expect.objectContaining({
+					errors: { username: 'Username already taken.' },
+					requiredErrorsCount: 1,
+					validating: false
+				})
+			);
+		});
+	});
+
+	describe('validation modes', () => {
+		const renderForm = (props: Partial<Form.Props> = {}, itemProps: Partial<Form.ItemProps> = {}) => {
+			const instance = new Form.Instance();
+
+			render(
+				<Form
+					instance={instance}
+					{...props}
+				>
+					<Form.Item
+						debounce={0}
+						path={['name']}
+						required
+						{...itemProps}
+					>
+						<input data-testid='name' />
+					</Form.Item>
+
+					<button
+						data-testid='submit'
+						type='submit'
+					>
+						Submit
+					</button>
+				</Form>
+			);
+
+			return instance;
+		};
+
+		it('should validate on change by default', async () => {
+			const instance = renderForm();
+
+			fireEvent.change(screen.getByTestId('name'), { target: { value: ' ' } });
+			await wait(10);
+
+			expect(instance.getError(['name'])).toEqual('Required Field.');
+		});
+
+		it('should validate on blur only when validateOn is "blur"', async () => {
+			const instance = renderForm({ validateOn: 'blur' });
+
+			fireEvent.change(screen.getByTestId('name'), { target: { value: ' ' } });
+			await wait(10);
+
+			expect(instance.get(['name'])).toEqual(' ');
+			expect(instance.getError(['name'])).toBeNull();
+
+			fireEvent.blur(screen.getByTestId('name'));
+
+			expect(instance.getError(['name'])).toEqual('Required Field.');
+		});
+
+		it('should flush pending input on blur', () => {
+			const instance = renderForm({ validateOn: 'blur' }, { debounce: 1000 });
+
+			fireEvent.change(screen.getByTestId('name'), { target: { value: 'John' } });
+			fireEvent.blur(screen.getByTestId('name'));
+
+			expect(instance.get(['name'])).toEqual('John');
+			expect(instance.getError(['name'])).toBeNull();
+		});
+
+		it('should validate on change after the first blur when validateOn is "touched"', async () => {
+			const instance = renderForm({ validateOn: 'touched' });
+
+			fireEvent.change(screen.getByTestId('name'), { target: { value: ' ' } });
+			await wait(10);
+
+			expect(instance.getError(['name'])).toBeNull();
+
+			fireEvent.blur(screen.getByTestId('name'));
+
+			expect(instance.getError(['name'])).toEqual('Required Field.');
+
+			fireEvent.change(screen.getByTestId('name'), { target: { value: 'John' } });
+			await wait(10);
+
+			expect(instance.getError(['name'])).toBeNull();
+		});
+
+		it('should validate on submit and revalidate with revalidateOn afterwards', async () => {
+			const instance = renderForm({ onSubmit: vi.fn(), revalidateOn: 'change', validateOn: 'submit' });
+
+			fireEvent.change(screen.getByTestId('name'), { target: { value: ' ' } });
+			fireEvent.blur(screen.getByTestId('name'));
+			await wait(10);
+
+			expect(instance.getError(['name'])).toBeNull();
+
+			fireEvent.click(screen.getByTestId('submit'));
+
+			expect(instance.getError(['name'])).toEqual('Required Field.');
+
+			fireEvent.change(screen.getByTestId('name'), { target: { value: 'John' } });
+			await wait(10);
+
+			expect(instance.getError(['name'])).toBeNull();
+		});
+
+		it('should allow Form.Item to override the form mode', async () => {
+			const instance = renderForm({ validateOn: 'submit' }, { validateOn: 'change' });
+
+			fireEvent.change(screen.getByTestId('name'), { target: { value: ' ' } });
+			await wait(10);
+
+			expect(instance.getError(['name'])).toEqual('Required Field.');
+		});
+	});
+
+	describe('schema', () => {
+		const schema: Form.Schema = {
+			'~standard': {
+				validate: (value: any) => {
+					const issues = [];
+
+					if (!value.name) {
+						issues.push({ message: 'Name is required', path: ['name'] });
+					}
+
+					if (!value.email || !value.email.includes('@')) {
+						issues.push({ message: 'Invalid email', path: ['email'] });
+					}
+
+					return issues.length > 0 ? { issues } : { value };
+				},
+				vendor: 'test',
+				version: 1
+			}
+		};
+
+		it('should validate the whole form on submit', () => {
+			const onSubmit = vi.fn();
+
+			render(
+				<Form
+					onSubmit={onSubmit}
+					schema={schema}
+				>
+					<Form.Item path={['name']}>
+						<input type='text' />
+					</Form.Item>
+
+					<button
+						data-testid='submit'
+						type='submit'
+					>
+						Submit
+					</button>
+				</Form>
+			);
+
+			fireEvent.click(screen.getByTestId('submit'));
+
+			expect(onSubmit).toHaveBeenCalledWith(
+				expect.objectContaining({
+					errors: { name: 'Name is required', email: 'Invalid email' },
+					requiredErrorsCount: 2
+				})
+			);
+		});
+
+		it('should revalidate only the reported path', async () => {
+			const instance = new Form.Instance({ name: 'John', email: 'john@example.com' });
+
+			render(
+				<Form
+					instance={instance}
+					schema={schema}
+				>
+					<Form.Item
+						debounce={0}
+						path={['email']}
+					>
+						<input data-testid='email' />
+					</Form.Item>
+				</Form>
+			);
+
+			instance.set(['name'], '');
+			fireEvent.change(screen.getByTestId('email'), { target: { value: 'john' } });
+			await wait(10);
+
+			expect(instance.errors).toEqual({ email: 'Invalid email' });
+
+			fireEvent.change(screen.getByTestId('email'), { target: { value: 'john@example.com' } });
+			await wait(10);
+
+			expect(instance.errors).toEqual({});
+		});
+	});
+
+	describe('structured errors', () => {
+		const renderForm = (formatError?: Form.ErrorFormatter) => {
+			return (
+				<Form formatError={formatError}>
+					<Form.Item
+						path={['name']}
+						required={({ value }) => {
+							return value.length < 3 ? { code: 'minLength', message: 'Too short', params: { min: 3 } } : false;
+						}}
+					>
+						<input data-testid='name' />
+					</Form.Item>
+				</Form>
+			);
+		};
+
+		it('should set error objects from required and fall back to their message', async () => {
+			render(renderForm());
+
+			fireEvent.change(screen.getByTestId('name'), { target: { value: 'Jo' } });
+			await wait(300);
+
+			expect(screen.getByTestId('name').getAttribute('data-error')).toEqual('Too short');
+		});
+
+		it('should render messages with formatError', async () => {
+			const formatError = (error: Form.ErrorObject) => {
+				return `${error.code}:${error.params?.min}`;
+			};
+
+			const { rerender } = render(renderForm(formatError));
+
+			fireEvent.change(screen.getByTestId('name'), { target: { value: 'Jo' } });
+			await wait(300);
+
+			expect(screen.getByTestId('name').getAttribute('data-error')).toEqual('minLength:3');
+
+			rerender(
+				renderForm(error => {
+					return `Min ${error.params?.min} characters`;
+				})
+			);
+
+			expect(screen.getByTestId('name').getAttribute('data-error')).toEqual('Min 3 characters');
+		});
+
+		it('should expose formatted messages to render functions', async () => {
+			const instance = new Form.Instance();
+
+			render(
+				<Form
+					formatError={error => {
+						return error.code === 'taken' ? 'Email already taken' : null;
+					}}
+					instance={instance}
+				>
+					<Form.Item path={['email']}>
+						{({ errorMessage }) => {
+							return <span data-testid='email-error'>{errorMessage}</span>;
+						}}
+					</Form.Item>
+				</Form>
+			);
+
+			instance.setError(['email'], { code: 'taken' });
+			await wait(20);
+
+			expect(screen.getByTestId('email-error').textContent).toEqual('Email already taken');
+
+			instance.setError(['email'], { code: 'invalid' });
+			await wait(20);
+
+			expect(screen.getByTestId('email-error').textContent).toEqual('invalid');
+		});
+	});
+
+	describe('messages', () => {
+		const messages = {
+			en: {
+				'list.max': 'No more than {max} items.',
+				minLength: 'At least {min, plural, one {# character} other {# characters}}.',
+				required: 'This field is required.'
+			},
+			pt: {
+				minLength: 'Pelo menos {min, plural, one {# caractere} other {# caracteres}}.',
+				required: 'Campo obrigatório.'
+			}
+		};
+
+		const renderForm = (locale: string, instance?: Form.InstanceType) => {
+			return (
+				<Form
+					fallbackLocale='en'
+					instance={instance}
+					locale={locale}
+					messages={messages}
+				>
+					<Form.Item
+						path={['name']}
+						required
+					>
+						<input data-testid='name' />
+					</Form.Item>
+
+					<Form.Item
+						path={['nickname']}
+						required={({ value }) => {
+							return value.length < 3 && { code: 'minLength', params: { min: 3 } };
+						}}
+					>
+						<input data-testid='nickname' />
+					</Form.Item>
+
+					<Form.List
+						max={1}
+						path={['items']}
+					>
+						{({ limitMessage }) => {
+							return <span data-testid='limit'>{limitMessage}</span>;
+						}}
+					</Form.List>
+				</Form>
+			);
+		};
+
+		it('should translate built-in and custom codes', async () => {
+			const instance = new Form.Instance({ items: [{}] });
+
+			render(renderForm('pt-BR', instance));
+
+			fireEvent.change(screen.getByTestId('name'), { target: { value: ' ' } });
+			fireEvent.change(screen.getByTestId('nickname'), { target: { value: 'Jo' } });
+			await wait(300);
+
+			expect(instance.errors).toEqual({
+				name: { code: 'required' },
+				nickname: { code: 'minLength', params: { min: 3 } }
+			});
+
+			expect(screen.getByTestId('name').getAttribute('data-error')).toEqual('Campo obrigatório.');
+			expect(screen.getByTestId('nickname').getAttribute('data-error')).toEqual('Pelo menos 3 caracteres.');
+			expect(screen.getByTestId('limit').textContent).toEqual('No more than 1 items.');
+		});
+
+		it('should re-render existing errors when the locale changes', async () => {
+			const { rerender } = render(renderForm('pt'));
+
+			fireEvent.change(screen.getByTestId('name'), { target: { value: ' ' } });
+			await wait(300);
+
+			expect(screen.getByTestId('name').getAttribute('data-error')).toEqual('Campo obrigatório.');
+
+			rerender(renderForm('en'));
+
+			expect(screen.getByTestId('name').getAttribute('data-error')).toEqual('This field is required.');
+
+			rerender(renderForm('fr'));
+
+			expect(screen.getByTestId('name').getAttribute('data-error')).toEqual('This field is required.');
+		});
+
+		it('should keep plain string errors without a catalog', async () => {
+			const instance = new Form.Instance({ items: [{}] });
+
+			render(
+				<Form instance={instance}>
+					<Form.Item
+						path={['name']}
+						required
+					>
+						<input data-testid='name' />
+					</Form.Item>
+
+					<Form.List
+						max={1}
+						path={['items']}
+					>
+						{({ limitMessage }) => {
+							return <span data-testid='limit'>{limitMessage}</span>;
+						}}
+					</Form.List>
+				</Form>
+			);
+
+			fireEvent.change(screen.getByTestId('name'), { target: { value: ' ' } });
+			await wait(300);
+
+			expect(instance.errors).toEqual({ name: 'Required Field.' });
+			expect(screen.getByTestId('limit').textContent).toEqual('Maximum of 1 item reached.');
+		});
+	});
+
+	describe('warnings', () => {
+		it('should route validator warnings to the warnings store without blocking submit', async () => {
+			const instance = new Form.Instance({ discount: 10 });
+			const onSubmit = vi.fn();
+			const onWarningChange = vi.fn();
+
+			render(
+				<Form
+					blockInvalidSubmit
+					instance={instance}
+					onSubmit={onSubmit}
+					onWarningChange={onWarningChange}
+				>
+					<Form.Item
+						path={['discount']}
+						required={({ value }) => {
+							return Number(value) > 50 && { code: 'highDiscount', message: 'Discount looks unusually high', severity: 'warning' };
+						}}
+					>
+						{({ onChange, value, warning, warningMessage }) => {
+							return (
+								<div>
+									<input
+										data-testid='discount'
+										onChange={onChange}
+										value={value}
+									/>
+									<span data-testid='warning'>{warningMessage}</span>
+									<span data-testid='warning-code'>{warning ? (warning as Form.ErrorObject).code : ''}</span>
+								</div>
+							);
+						}}
+					</Form.Item>
+
+					<button
+						data-testid='submit'
+						type='submit'
+					>
+						Submit
+					</button>
+				</Form>
+			);
+
+			fireEvent.change(screen.getByTestId('discount'), { target: { value: '80' } });
+			await wait(300);
+
+			expect(screen.getByTestId('warning').textContent).toEqual('Discount looks unusually high');
+			expect(screen.getByTestId('warning-code').textContent).toEqual('highDiscount');
+			expect(instance.errors).toEqual({});
+			expect(onWarningChange).toHaveBeenCalledWith(expect.objectContaining({ warningsCount: 1 }), 'SET_WARNING');
+
+			fireEvent.click(screen.getByTestId('submit'));
+
+			expect(onSubmit).toHaveBeenCalledWith(
+				expect.objectContaining({
+					errorsCount: 0,
+					warnings: { discount: { code: 'highDiscount', message: 'Discount looks unusually high', severity: 'warning' } }
+				})
+			);
+
+			fireEvent.change(screen.getByTestId('discount'), { target: { value: '20' } });
+			await wait(300);
+
+			expect(screen.getByTestId('warning').textContent).toEqual('');
+			expect(instance.warnings).toEqual({});
+		});
+	});
+
+	describe('validate', () => {
+		it('should validate across fields on change and on submit', async () => {
+			const instance = new Form.Instance({ password: '', passwordConfirmation: '' });
+			const onSubmit = vi.fn();
+
+			render(
+				<Form
+					instance={instance}
+					onSubmit={onSubmit}
+					validate={value => {
+						return {
+							passwordConfirmation: value.password !== value.passwordConfirmation ? 'Passwords do not match' : null
+						};
+					}}
+				>
+					<Form.Item path={['password']}>
+						<input data-testid='password' />
+					</Form.Item>
+
+					<Form.Item path={['passwordConfirmation']}>
+						<input data-testid='confirmation' />
+					</Form.Item>
+
+					<button
+						data-testid='submit'
+						type='submit'
+					>
+						Submit
+					</button>
+				</Form>
+			);
+
+			fireEvent.change(screen.getByTestId('password'), { target: { value: 'secret' } });
+			await wait(300);
+
+			expect(screen.getByTestId('confirmation').getAttribute('data-error')).toEqual('Passwords do not match');
+
+			fireEvent.change(screen.getByTestId('confirmation'), { target: { value: 'secret' } });
+			fireEvent.click(screen.getByTestId('submit'));
+
+			expect(onSubmit).toHaveBeenCalledWith(
+				expect.objectContaining({
+					errors: {},
+					value: { password: 'secret', passwordConfirmation: 'secret' }
+				})
+			);
+		});
+		it('should keep cross-field errors when items validate without errors', async () => {
+			const instance = new Form.Instance({ a: '', b: '' }, { notify: 'sync' });
+			const onErrorChange = vi.fn();
+
+			render(
+				<Form
+					instance={instance}
+					validate={value => {
+						return { b: value.a !== value.b ? 'mismatch' : null };
+					}}
+				>
+					<Form.Item
+						debounce={0}
+						path={['a']}
+					>
+						<input data-testid='a' />
+					</Form.Item>
+
+					<Form.Item
+						debounce={0}
+						path={['b']}
+						rules={[{ max: 5 }]}
+						validateOn='change'
+					>
+						<input data-testid='b' />
+					</Form.Item>
+				</Form>
+			);
+
+			fireEvent.change(screen.getByTestId('a'), { target: { value: 'x' } });
+			await wait(0);
+
+			expect(instance.errors).toEqual({ b: 'mismatch' });
+
+			instance.onErrorChange(onErrorChange);
+			fireEvent.change(screen.getByTestId('b'), { target: { value: 'y' } });
+			await wait(0);
+
+			expect(instance.errors).toEqual({ b: 'mismatch' });
+			expect(instance.errorsCount()).toEqual(1);
+			expect(onErrorChange).not.toHaveBeenCalled();
+
+			fireEvent.change(screen.getByTestId('b'), { target: { value: 'x' } });
+			await wait(0);
+
+			expect(instance.errors).toEqual({});
+		});
+	});
+
+	describe('plugins', () => {
+		it('should register plugins along with the instance', async () => {
+			const cleanup = vi.fn();
+			const setup = vi.fn(() => cleanup);
+			const plugin: Form.Plugin = {
+				beforeSet: operation => {
+					return operation.action === 'SET' ? { ...operation, value: String(operation.value).toUpperCase() } : undefined;
+				},
+				setup
+			};
+
+			const instance = new Form.Instance();
+			const renderForm = () => {
+				return (
+					<Form
+						instance={instance}
+						plugins={[plugin]}
+					>
+						<Form.Item
+							debounce={0}
+							path={['name']}
+						>
+							<input data-testid='name' />
+						</Form.Item>
+					</Form>
+				);
+			};
+
+			const { rerender, unmount } = render(renderForm());
+
+			fireEvent.change(screen.getByTestId('name'), { target: { value: 'jane' } });
+
+			await wait(15);
+			expect(instance.value).toEqual({ name: 'JANE' });
+
+			// inline lists of the same plugins are not registered again
+			rerender(renderForm());
+			expect(setup).toHaveBeenCalledTimes(1);
+
+			unmount();
+			expect(cleanup).toHaveBeenCalledTimes(1);
+		});
+
+		it('should keep list keys when plugins cancel list operations', async () => {
+			const added: (number | undefined)[] = [];
+			const plugin: Form.Plugin = {
+				beforeSet: ({ action, value }) => {
+					return !(action === 'LIST_INSERT' && value === 'blocked');
+				}
+			};
+
+			render(
+				<Form
+					plugins={[plugin]}
+					value={{ items: ['a'] }}
+				>
+					<Form.List path={['items']}>
+						<Form.List.Items>
+							{({ addStart, key, value }) => {
+								return (
+									<div>
+										<span data-testid='row'>{`${key}:${value}`}</span>
+
+										<button
+											data-testid={`add-${value}`}
+											onClick={() => {
+												added.push(addStart('blocked'), addStart('b'));
+											}}
+										/>
+									</div>
+								);
+							}}
+						</Form.List.Items>
+					</Form.List>
+				</Form>
+			);
+
+			fireEvent.click(screen.getByTestId('add-a'));
+			await wait(20);
+
+			expect(added).toEqual([undefined, 2]);
+			expect(
+				screen.getAllByTestId('row').map(row => {
+					return row.textContent;
+				})
+			).toEqual(['2:b', '0:a']);
+		});
+	});
+
+	describe('worker', () => {
+		it('should validate in the worker and show the returned errors', async () => {
+			const worker = Form.createLocalWorker(scope => {
+				Form.exposeValidation(
+					{
+						validate: value => {
+							return {
+								passwordConfirmation: value.password !== value.passwordConfirmation ? 'Passwords do not match' : null
+							};
+						}
+					},
+					scope
+				);
+			});
+
+			render(
+				<Form
+					value={{ password: '', passwordConfirmation: '' }}
+					worker={worker}
+				>
+					<Form.Item path={['password']}>
+						<input data-testid='password' />
+					</Form.Item>
+
+					<Form.Item path={['passwordConfirmation']}>
+						<input data-testid='confirmation' />
+					</Form.Item>
+				</Form>
+			);
+
+			fireEvent.change(screen.getByTestId('password'), { target: { value: 'secret' } });
+			await wait(300);
+
+			expect(screen.getByTestId('confirmation').getAttribute('data-error')).toEqual('Passwords do not match');
+
+			fireEvent.change(screen.getByTestId('confirmation'), { target: { value: 'secret' } });
+			await wait(300);
+
+			expect(screen.getByTestId('confirmation').getAttribute('data-error')).toBeNull();
+			worker.terminate();
+		});
+
+		it('should detach the worker on unmount', () => {
+			const listeners = new Set<(event: { data: any }) => void>();
+			const worker: Form.Worker = {
+				addEventListener: (_, listener) => {
+					listeners.add(listener);
+				},
+				postMessage: vi.fn(),
+				removeEventListener: (_, listener) => {
+					listeners.delete(listener);
+				}
+			};
+
+			const instance = new Form.Instance();
+			const { unmount } = render(
+				<Form
+					instance={instance}
+					worker={worker}
+				>
+					<Form.Item path={['name']}>
+						<input />
+					</Form.Item>
+				</Form>
+			);
+
+			expect(listeners.size).toEqual(1);
+
+			unmount();
+
+			expect(listeners.size).toEqual(0);
+			expect(instance.isValidating()).toEqual(false);
+		});
+	});
+
+	describe('deps', () => {
+		it('should revalidate items when their dependencies change', async () => {
+			const instance = new Form.Instance({ end: '2024-01-10', start: '2024-01-01' });
+			const required = vi.fn(({ instance, value }: { instance: Form.InstanceType; value: string }) => {
+				return value < instance.get(['start']) && 'End date must be after start date';
+			});
+
+			render(
+				<Form instance={instance}>
+					<Form.Item path={['start']}>
+						<input data-testid='start' />
+					</Form.Item>
+
+					<Form.Item
+						deps={[['start']]}
+						path={['end']}
+						required={required}
+					>
+						<input data-testid='end' />
+					</Form.Item>
+				</Form>
+			);
+
+			fireEvent.change(screen.getByTestId('start'), { target: { value: '2024-01-20' } });
+			await wait(300);
+
+			expect(instance.value).toEqual({ end: '2024-01-10', start: '2024-01-20' });
+			expect(screen.getByTestId('end').getAttribute('data-error')).toEqual('End date must be after start date');
+
+			fireEvent.change(screen.getByTestId('start'), { target: { value: '2024-01-05' } });
+			await wait(300);
+
+			expect(screen.getByTestId('end').getAttribute('data-error')).toBeNull();
+			expect(required).toHaveBeenCalledTimes(2);
+		});
+
+		it('should report dependency cycles', () => {
+			const warn = vi.spyOn(console, 'warn').mockImplementation(() => {});
+
+			render(
+				<Form>
+					<Form.Item
+						deps={[['b']]}
+						path={['a']}
+					>
+						<input />
+					</Form.Item>
+
+					<Form.Item
+						deps={[['a']]}
+						path={['b']}
+					>
+						<input />
+					</Form.Item>
+				</Form>
+			);
+
+			expect(warn).toHaveBeenCalledWith('Form: dependency cycle detected: b -> a -> b');
+			warn.mockRestore();
+		});
+	});
+
+	describe('rules', () => {
+		it('should compose rules with required', async () => {
+			const instance = new Form.Instance();
+
+			render(
+				<Form instance={instance}>
+					<Form.Item
+						path={['email']}
+						required={({ value }) => {
+							return value.startsWith('admin') && 'Reserved address';
+						}}
+						rules={[{ type: 'email' }, { max: 10 }]}
+					>
+						<input data-testid='email' />
+					</Form.Item>
+
+					<Form.Item
+						path={['age']}
+						required
+						rules={[{ max: 120, min: 18, type: 'integer' }]}
+					>
+						<input data-testid='age' />
+					</Form.Item>
+				</Form>
+			);
+
+			fireEvent.change(screen.getByTestId('email'), { target: { value: 'administrator' } });
+			fireEvent.change(screen.getByTestId('age'), { target: { value: ' ' } });
+			await wait(300);
+
+			expect(instance.errors).toEqual({
+				age: 'Required Field.',
+				email: ['Reserved address', 'Invalid email address.', 'No more than 10 characters.']
+			});
+
+			fireEvent.change(screen.getByTestId('email'), { target: { value: 'jo@doe.com' } });
+			fireEvent.change(screen.getByTestId('age'), { target: { value: '16' } });
+			await wait(300);
+
+			expect(instance.errors).toEqual({ age: 'Must be at least 18.' });
+			expect(instance.requiredErrorsCount()).toEqual(1);
+		});
+	});
+
+	describe('error display', () => {
+		const renderForm = (showErrors: Form.ShowErrors, instance?: Form.InstanceType) => {
+			return (
+				<Form
+					instance={instance}
+					onSubmit={vi.fn()}
+					showErrors={showErrors}
+				>
+					<Form.Item
+						path={['name']}
+						rules={[{ min: 3 }]}
+					>
+						{({ error, onBlur, onChange, value, visibleError }) => {
+							return (
+								<div>
+									<input
+										data-testid='name'
+										onBlur={onBlur}
+										onChange={onChange}
+										value={value}
+									/>
+									<span data-testid='error'>{error as string}</span>
+									<span data-testid='visible-error'>{visibleError as string}</span>
+								</div>
+							);
+						}}
+					</Form.Item>
+
+					<Form.Item
+						path={['nickname']}
+						rules={[{ min: 3 }]}
+						showErrors='always'
+					>
+						<input data-testid='nickname' />
+					</Form.Item>
+
+					<button
+						data-testid='submit'
+						type='submit'
+					>
+						Submit
+					</button>
+				</Form>
+			);
+		};
+
+		it('should show errors after touch', async () => {
+			const instance = new Form.Instance();
+
+			render(renderForm('touched', instance));
+
+			fireEvent.change(screen.getByTestId('name'), { target: { value: 'Jo' } });
+			fireEvent.change(screen.getByTestId('nickname'), { target: { value: 'Jo' } });
+			await wait(300);
+
+			expect(instance.errors).toEqual({ name: 'At least 3 characters.', nickname: 'At least 3 characters.' });
+			expect(screen.getByTestId('error').textContent).toEqual('At least 3 characters.');
+			expect(screen.getByTestId('visible-error').textContent).toEqual('');
+			expect(screen.getByTestId('nickname').getAttribute('data-error')).toEqual('At least 3 characters.');
+
+			fireEvent.blur(screen.getByTestId('name'));
+			await wait(0);
+
+			expect(screen.getByTestId('visible-error').textContent).toEqual('At least 3 characters.');
+		});
+
+		it('should show errors after the first submit attempt', async () => {
+			const instance = new Form.Instance();
+
+			render(renderForm('submitted', instance));
+
+			fireEvent.change(screen.getByTestId('name'), { target: { value: 'Jo' } });
+			await wait(300);
+			fireEvent.blur(screen.getByTestId('name'));
+			await wait(0);
+
+			expect(screen.getByTestId('visible-error').textContent).toEqual('');
+
+			fireEvent.click(screen.getByTestId('submit'));
+			await wait(0);
+
+			expect(instance.errorsCount()).toEqual(1);
+			expect(screen.getByTestId('visible-error').textContent).toEqual('At least 3 characters.');
+		});
+
+		it('should show errors once the value differs from the baseline', async () => {
+			const instance = new Form.Instance({ name: 'Jo' });
+
+			render(renderForm('dirty', instance));
+
+			instance.setError(['name'], 'Invalid name');
+			await wait(20);
+
+			expect(screen.getByTestId('visible-error').textContent).toEqual('');
+
+			fireEvent.change(screen.getByTestId('name'), { target: { value: 'J' } });
+			await wait(300);
+
+			expect(screen.getByTestId('visible-error').textContent).toEqual('At least 3 characters.');
+		});
+	});
+
+	describe('Form.List', () => {
+		it('should handle adding and removing items', async () => {
+			const onSubmit = vi.fn();
+
+			render(
+				<Form onSubmit={onSubmit}>
+					<Form.List path={['items']}>
+						<Form.List.Items>
+							{props => {
+								return (
+									<div>
+										<Form.Item path={[...props.path, 'name']}>
+											<input
+												data-testid='text'
+												type='text'
+											/>
+										</Form.Item>
+
+										<button
+											data-testid={`remove-${props.index}`}
+											onClick={e => {
+												e.preventDefault();
+												return props.remove();
+											}}
+										>
+											Remove
+										</button>
+									</div>
+								);
+							}}
+						</Form.List.Items>
+
+						<Form.List.Add>
+							{props => {
+								return (
+									<button
+										data-testid='add'
+										onClick={e => {
+											e.preventDefault();
+											return props.add({ name: '' });
+										}}
+									>
+										Add Item
+									</button>
+								);
+							}}
+						</Form.List.Add>
+					</Form.List>
+
+					<button
+						data-testid='submit'
+						type='submit'
+					>
+						Submit
+					</button>
+				</Form>
+			);
+
+			fireEvent.click(screen.getByTestId('add'));
+			fireEvent.click(screen.getByTestId('add'));
+			fireEvent.click(screen.getByTestId('add'));
+			await wait(20);
+
+			expect(screen.getAllByTestId('text')).toHaveLength(3);
+			fireEvent.click(screen.getByTestId('remove-0'));
+			await wait(20);
+			expect(screen.getAllByTestId('text')).toHaveLength(2);
+
+			fireEvent.click(screen.getByTestId('submit'));
+			expect(onSubmit).toHaveBeenCalledWith({
+				changed: true,
+				changesCount: 2,
+				dirty: true,
+				errors: {},
+				errorsCount: 0,
+				instance: expect.any(Form.Instance),
+				isSubmitting: true,
+				lastChange: expect.any(Number),
+				lastSubmit: expect.any(Number),
+				lastSubmitResult: null,
+				requiredErrorsCount: 0,
+				submitCount: 1,
+				submitError: null,
+				touched: {},
+				validating: false,
+				validatingFields: {},
+				value: {
+					items: [{ name: '' }, { name: '' }]
+				},
+				visited: {},
+				warnings: {},
+				warningsCount: 0
+			});
+		});
+	});
+
+	describe('touched and visited', () => {
+		it('should track focus and blur of items', async () => {
+			const instance = new Form.Instance();
+			const states: { touched: boolean; visited: boolean }[] = [];
+
+			render(
+				<Form instance={instance}>
+					<Form.Item path={['name']}>
+						{({ onBlur, onChange, onFocus, touched, value, visited }) => {
+							states.push({ touched, visited });
+
+							return (
+								<input
+									data-testid='name'
+									onBlur={onBlur}
+									onChange={onChange}
+									onFocus={onFocus}
+									value={value}
+								/>
+							);
+						}}
+					</Form.Item>
+
+					<Form.Item path={['email']}>
+						<input data-testid='email' />
+					</Form.Item>
+				</Form>
+			);
+
+			fireEvent.focus(screen.getByTestId('name'));
+			await wait(0);
+			expect(states[states.length - 1]).toEqual({ touched: false, visited: true });
+
+			fireEvent.blur(screen.getByTestId('name'));
+			await wait(0);
+			expect(states[states.length - 1]).toEqual({ touched: true, visited: true });
+
+			fireEvent.focus(screen.getByTestId('email'));
+			fireEvent.blur(screen.getByTestId('email'));
+
+			expect(instance.getPayload()).toEqual(
+				expect.objectContaining({
+					touched: { email: true, name: true },
+					visited: { email: true, name: true }
+				})
+			);
+		});
+
+		it('should keep element children own focus handlers', () => {
+			const instance = new Form.Instance();
+			const onBlur = vi.fn();
+			const onFocus = vi.fn();
+
+			render(
+				<Form instance={instance}>
+					<Form.Item path={['name']}>
+						<input
+							data-testid='name'
+							onBlur={onBlur}
+							onFocus={onFocus}
+						/>
+					</Form.Item>
+				</Form>
+			);
+
+			fireEvent.focus(screen.getByTestId('name'));
+			fireEvent.blur(screen.getByTestId('name'));
+
+			expect(onFocus).toHaveBeenCalledTimes(1);
+			expect(onBlur).toHaveBeenCalledTimes(1);
+			expect(instance.isTouched(['name'])).toEqual(true);
+			expect(instance.isVisited(['name'])).toEqual(true);
+		});
+
+		it('should keep flags aligned when list items are removed', async () => {
+			const instance = new Form.Instance({ items: [{ name: 'a' }, { name: 'b' }] });
+
+			render(
+				<Form instance={instance}>
+					<Form.List path={['items']}>
+						<Form.List.Items>
+							{props => {
+								return (
+									<div>
+										<Form.Item path={[...props.path, 'name']}>
+											<input data-testid={`name-${props.index}`} />
+										</Form.Item>
+
+										<button
+											data-testid={`remove-${props.index}`}
+											onClick={e => {
+												e.preventDefault();
+												return props.remove();
+											}}
+										>
+											Remove
+										</button>
+									</div>
+								);
+							}}
+						</Form.List.Items>
+					</Form.List>
+				</Form>
+			);
+
+			fireEvent.blur(screen.getByTestId('name-1'));
+			fireEvent.click(screen.getByTestId('remove-0'));
+			await wait(20);
+
+			expect(instance.value).toEqual({ items: [{ name: 'b' }] });
+			expect(instance.touched).toEqual({ items: [{ name: true }] });
+		});
+	});
+
+	describe('reset', () => {
+		it('should restore items to the initial value', async () => {
+			const instance = new Form.Instance();
+
+			render(
+				<Form
+					instance={instance}
+					value={{ name: 'John' }}
+				>
+					<Form.Item
+						debounce={0}
+						path={['name']}
+						resetDelay={0}
+					>
+						<input data-testid='name' />
+					</Form.Item>
+				</Form>
+			);
+
+			fireEvent.change(screen.getByTestId('name'), { target: { value: 'Jane' } });
+			await wait(20);
+
+			expect(instance.isDirty(['name'])).toEqual(true);
+
+			instance.reset();
+			await wait(20);
+
+			expect(instance.isDirty()).toEqual(false);
+			expect((screen.getByTestId('name') as HTMLInputElement).value).toEqual('John');
+		});
+	});
+
+	describe('Form.Value', () => {
+		it('should render the value at the specified path', () => {
+			const initialValue = {
+				user: {
+					name: 'John Doe',
+					email: 'john@example.com'
+				}
+			};
+
+			render(
+				<Form value={initialValue}>
+					<Form.Value path={['user', 'name']}>{({ value }) => <div data-testid='name-value'>{value}</div>}</Form.Value>
+				</Form>
+			);
+
+			expect(screen.getByTestId('name-value').textContent).toBe('John Doe');
+		});
+
+		it('should update when the form value changes', async () => {
+			const initialValue = {
+				user: {
+					name: 'John Doe',
+					email: 'john@example.com'
+				}
+			};
+
+			render(
+				<Form value={initialValue}>
+					<Form.Item
+						debounce={0}
+						path={['user', 'name']}
+					>
+						{({ value, onChange }) => (
+							<input
+								data-testid='name-input'
+								value={value}
+								onChange={e => {
+									onChange(e.target.value);
+								}}
+							/>
+						)}
+					</Form.Item>
+					<Form.Value path={['user', 'name']}>
+						{({ value }) => {
+							return <div data-testid='name-display'>{value}</div>;
+						}}
+					</Form.Value>
+				</Form>
+			);
+
+			// Initial value check
+			expect(screen.getByTestId('name-display').textContent).toBe('John Doe');
+
+			// Change the input value
+			fireEvent.change(screen.getByTestId('name-input'), {
+				target: { value: 'Jane Smith' }
+			});
+
+			await wait(50);
+
+			// Check if the display is updated
+			expect(screen.getByTestId('name-display').textContent).toBe('Jane Smith');
+		});
+
+		it('should work with nested Form.Value components', () => {
+			const initialValue = {
+				user: {
+					name: 'John Doe',
+					address: {
+						city: 'New York',
+						country: 'USA'
+					}
+				}
+			};
+
+			render(
+				<Form value={initialValue}>
+					<Form.Value path={['user']}>
+						{({ value: user }) => (
+							<div>
+								<div data-testid='user-name'>{user.name}</div>
+								<Form.Value path={['user', 'address']}>
+									{({ value: address }) => (
+										<div>
+											<div data-testid='user-city'>{address.city}</div>
+											<div data-testid='user-country'>{address.country}</div>
+										</div>
+									)}
+								</Form.Value>
+							</div>
+						)}
+					</Form.Value>
+				</Form>
+			);
+
+			expect(screen.getByTestId('user-name').textContent).toBe('John Doe');
+			expect(screen.getByTestId('user-city').textContent).toBe('New York');
+			expect(screen.getByTestId('user-country').textContent).toBe('USA');
+		});
+
+		it('should throw an error when used outside of a Form', () => {
+			// Suppress console.error for this test
+			const originalConsoleError = console.error;
 			console.error = vi.fn();
 
 			expect(() => {
@@ -515,6 +2022,193 @@ describe('/form', () => {
 		});
 	});
 
+	describe('path notifications', () => {
+		it('should sync only items related to the changed path', async () => {
+			const instance = new Form.Instance({ age: 30, name: 'John' });
+			const transformName = vi.fn(({ value }) => {
+				return value;
+			});
+
+			const transformAge = vi.fn(({ value }) => {
+				return value;
+			});
+
+			render(
+				<Form instance={instance}>
+					<Form.Item
+						path={['name']}
+						transformIn={transformName}
+					>
+						<input data-testid='name' />
+					</Form.Item>
+
+					<Form.Item
+						path={['age']}
+						transformIn={transformAge}
+					>
+						<input data-testid='age' />
+					</Form.Item>
+				</Form>
+			);
+
+			await wait(20);
+			transformAge.mockClear();
+			transformName.mockClear();
+
+			instance.set(['name'], 'Jane');
+			await wait(20);
+
+			expect(transformName).toHaveBeenCalled();
+			expect(transformAge).not.toHaveBeenCalled();
+			expect((screen.getByTestId('name') as HTMLInputElement).value).toEqual('Jane');
+			expect((screen.getByTestId('age') as HTMLInputElement).value).toEqual('30');
+		});
+	});
+
+	describe('useWatch', () => {
+		it('should re-render only when the watched value changes', async () => {
+			const instance = new Form.Instance({ age: 30, name: 'John' });
+			const renders = vi.fn();
+			const Name = memo(() => {
+				const name = Form.useWatch<string>(['name']);
+
+				renders();
+
+				return <div data-testid='name'>{name}</div>;
+			});
+
+			render(
+				<Form instance={instance}>
+					<Name />
+				</Form>
+			);
+
+			expect(renders).toHaveBeenCalledTimes(1);
+
+			instance.set(['age'], 31);
+			await wait(20);
+
+			expect(renders).toHaveBeenCalledTimes(1);
+
+			instance.set(['name'], 'Jane');
+			await wait(20);
+
+			expect(renders).toHaveBeenCalledTimes(2);
+			expect(screen.getByTestId('name').textContent).toEqual('Jane');
+		});
+
+		it('should support selectors and custom equality', async () => {
+			const instance = new Form.Instance({ items: [{ name: 'a' }], title: 'List' });
+			const renders = vi.fn();
+			const Count = memo(() => {
+				const count = Form.useWatch(['items'], (items: { name: string }[]) => {
+					return items.length;
+				});
+
+				renders();
+
+				return <div data-testid='count'>{count}</div>;
+			});
+
+			const Title = memo(() => {
+				const title = Form.useWatch(['title'], undefined, (a: string, b: string) => {
+					return a.toLowerCase() === b.toLowerCase();
+				});
+
+				return <div data-testid='title'>{title}</div>;
+			});
+
+			render(
+				<Form instance={instance}>
+					<Count />
+					<Title />
+				</Form>
+			);
+
+			instance.set(['items', 0, 'name'], 'b');
+			await wait(20);
+
+			expect(renders).toHaveBeenCalledTimes(1);
+
+			instance.set(['items', 1], { name: 'c' });
+			instance.set(['title'], 'LIST');
+			await wait(20);
+
+			expect(renders).toHaveBeenCalledTimes(2);
+			expect(screen.getByTestId('count').textContent).toEqual('2');
+			expect(screen.getByTestId('title').textContent).toEqual('List');
+		});
+
+		it('should throw an error when used outside of a Form', () => {
+			const originalConsoleError = console.error;
+			console.error = vi.fn();
+
+			const Name = () => {
+				return <div>{Form.useWatch(['name'])}</div>;
+			};
+
+			expect(() => {
+				render(<Name />);
+			}).toThrow('"useWatch" must be wrapped by a "Form".');
+
+			console.error = originalConsoleError;
+		});
+	});
+
+	describe('useFormState', () => {
+		it('should re-render only when the selected state changes', async () => {
+			const instance = new Form.Instance({ name: '' });
+			const renders = vi.fn();
+			const Errors = memo(() => {
+				const errorsCount = Form.useFormState(({ errorsCount }) => {
+					return errorsCount;
+				});
+
+				renders();
+
+				return <div data-testid='errors'>{errorsCount}</div>;
+			});
+
+			render(
+				<Form instance={instance}>
+					<Errors />
+				</Form>
+			);
+
+			instance.set(['name'], 'John');
+			await wait(20);
+
+			expect(renders).toHaveBeenCalledTimes(1);
+
+			instance.setError(['name'], 'Invalid');
+			await wait(20);
+
+			expect(renders).toHaveBeenCalledTimes(2);
+			expect(screen.getByTestId('errors').textContent).toEqual('1');
+		});
+
+		it('should throw an error when used outside of a Form', () => {
+			const originalConsoleError = console.error;
+			console.error = vi.fn();
+
+			const Errors = () => {
+				return (
+					<div>
+						{Form.useFormState(({ errorsCount }) => {
+							return errorsCount;
+						})}
+					</div>
+				);
+			};
+
+			expect(() => {
+				render(<Errors />);
+			}).toThrow('"useFormState" must be wrapped by a "Form".');
+
+			console.error = originalConsoleError;
+		});
+	});
+
 	describe('Form.Item transformations and effects', () => {
 		it('should apply transformIn when getting value from form', async () => {
 			const initialValue = { age: '25' };
@@ -1097,7 +2791,8 @@ describe('/form', () => {
 					changed: true,
 					changesCount: 1
 				}),
-				'SET'
+				'SET',
+				expect.objectContaining({ actions: ['SET'] })
 			);
 		});
 	});
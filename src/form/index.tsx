@@ -1,7 +1,13 @@
 import clsx from 'clsx';
+import cloneDeep from 'lodash/cloneDeep';
+import find from 'lodash/find';
+import forEach from 'lodash/forEach';
+import isEqual from 'lodash/isEqual';
 import isFunction from 'lodash/isFunction';
 import isUndefined from 'lodash/isUndefined';
-import now from 'lodash/now';
+import map from 'lodash/map';
+import noop from 'lodash/noop';
+import omitBy from 'lodash/omitBy';
 import {
 	createElement,
 	ElementType,
@@ -19,86 +25,182 @@ import {
 	useState
 } from 'react';
 
-import context from '@/form/context';
+import context, { instanceContext } from '@/form/context';
 import Instance from '@/form/instance';
 import Item from '@/form/item';
 import List from '@/form/list';
 import useForm from '@/form/use-form';
 import useFormHistory from '@/form/use-form-history';
+import useFormState from '@/form/use-form-state';
 import useNewForm from '@/form/use-new-form';
+import useWatch from '@/form/use-watch';
+import { JsonPatch } from '@/form/json-patch';
+import { Messages } from '@/form/messages';
+import { Rules } from '@/form/rules';
+import { StandardSchemaV1 } from '@/form/schema';
+import { registerServerErrorParser } from '@/form/server-errors';
 import util from '@/form/util';
+import { createLocalWorker, exposeValidation, ValidationWorker } from '@/form/worker';
 
 namespace Form {
 	export interface Props extends Omit<PropsWithChildren<HTMLAttributes<HTMLElement>>, 'onChange' | 'onSubmit'> {
 		as?: ElementType;
+		blockInvalidSubmit?: boolean;
 		children: ReactNode;
 		className?: string;
+		fallbackLocale?: string | string[];
+		focusInvalid?: boolean;
+		formatError?: Instance.ErrorFormatter;
 		instance?: Instance;
 		implicit?: boolean;
+		locale?: string;
 		locked?: boolean;
-		onChange?: (payload: Instance.Payload, action: Instance.Action) => void;
-		onErrorChange?: (payload: Instance.Payload, action: Instance.Action) => void;
+		messages?: Messages.Catalogs;
+		onChange?: Instance.Listener;
+		onErrorChange?: Instance.Listener;
 		onInit?: (payload: Instance.Payload) => void;
-		onSubmit?: (payload: Instance.Payload) => void;
+		onInvalidSubmit?: Instance.SubmitHandler;
+		onSubmit?: Instance.SubmitHandler;
+		onWarningChange?: Instance.Listener;
+		plugins?: Instance.Plugin[];
 		submitOnEnter?: boolean;
 		ref?: ForwardedRef<HTMLElement>;
+		revalidateOn?: Instance.ValidateOn;
+		schema?: Schema;
+		showErrors?: Instance.ShowErrors;
+		submitFormat?: Instance.SubmitFormat;
+		validate?: Instance.Validator;
+		validateOn?: Instance.ValidateOn;
 		value?: Instance.Value;
+		worker?: ValidationWorker.Port;
 	}
 
 	export type Error = Instance.Error;
+	export type ErrorFormatter = Instance.ErrorFormatter;
+	export type ErrorObject = Instance.ErrorObject;
 	export type Errors = Instance.Errors;
 	export type InstanceAction = Instance.Action;
+	export type MessageCatalogs = Messages.Catalogs;
 	export type InstanceType<T extends object = Instance.Value> = Instance<T>;
+	export type JsonPatchOperation = JsonPatch.Operation;
 	export type Path = Instance.Path;
 	export type Payload<T extends object = Instance.Value> = Instance.Payload<T>;
+	export type Plugin<T extends object = Instance.Value> = Instance.Plugin<T>;
+	export type Rule = Rules.Rule;
+	export type ShowErrors = Instance.ShowErrors;
+	export type SubmitFormat = Instance.SubmitFormat;
+	export type Schema<Input = Instance.Value, Output = Input> = StandardSchemaV1<Input, Output>;
+	export type ValidateOn = Instance.ValidateOn;
+	export type ValidateResult = Instance.ValidateResult;
+	export type Validator<T extends object = Instance.Value> = Instance.Validator<T>;
 	export type Value = Instance.Value;
+	export type Worker = ValidationWorker.Port;
 	export type ValueProps = {
 		path: Path;
 		children: (value: { value: Instance.Value }) => ReactNode;
 	};
 
 	export type ItemFunctionProps<T extends object = Instance.Value> = Item.ItemFunctionProps<T>;
+	export type ItemProps = Item.Props;
 	export type ItemFunction<T extends object = Instance.Value> = Item.ItemFunction<T>;
 	export type ListItemFunctionProps<T extends object = Instance.Value> = List.ItemFunctionProps<T>;
 	export type ListItemFunction<T extends object = Instance.Value> = List.ItemFunction<T>;
 
+	export type SubmitRenderProps = {
+		isSubmitting: boolean;
+		lastSubmitResult: unknown;
+		submit: (value: Instance.Value) => void;
+		submitCount: number;
+		submitError: unknown;
+	};
+
 	export type SubmitProps = {
-		children: (props: { submit: (value: Instance.Value) => void }) => ReactNode;
+		children: (props: SubmitRenderProps) => ReactNode;
 	};
 }
 
 const Form = ({
 	as = 'form',
+	blockInvalidSubmit = false,
 	className,
 	children,
+	fallbackLocale,
+	focusInvalid = false,
+	formatError,
 	instance,
 	implicit = false,
+	locale,
 	locked = false,
+	messages,
 	onChange,
 	onErrorChange,
 	onInit,
+	onInvalidSubmit,
 	onSubmit,
+	onWarningChange,
+	plugins,
 	ref,
+	revalidateOn = 'change',
+	schema,
+	showErrors = 'always',
+	submitFormat,
 	submitOnEnter = false,
+	validate,
+	validateOn = 'change',
 	value,
+	worker,
 	...rest
 }: Form.Props) => {
+	const i18nRef = useRef({ fallbackLocale, formatError, locale, messages });
 	const onChangeRef = useRef<Form.Props['onChange']>(onChange);
 	const onErrorChangeRef = useRef<Form.Props['onErrorChange']>(onErrorChange);
 	const onInitRef = useRef<Form.Props['onInit']>(onInit);
+	const onInvalidSubmitRef = useRef<Form.Props['onInvalidSubmit']>(onInvalidSubmit);
 	const onSubmitRef = useRef<Form.Props['onSubmit']>(onSubmit);
+	const onWarningChangeRef = useRef<Form.Props['onWarningChange']>(onWarningChange);
+	const pluginsRef = useRef<{ plugins: Form.Props['plugins']; unsubscribes: (() => void)[] } | null>(null);
+	const submitOptionsRef = useRef({ blockInvalidSubmit, focusInvalid });
 	const instanceRef = useRef<Instance>(null!);
 	const [state, setState] = useState({
 		changes: 0,
-		errors: 0
+		errors: 0,
+		status: 0,
+		warnings: 0
 	});
 
 	if (!instanceRef.current) {
 		instanceRef.current = instance || new Instance(value || {});
 
 		if (instanceRef.current && !isUndefined(value)) {
+			instanceRef.current.initialValue = cloneDeep(value);
 			instanceRef.current.value = value;
 		}
+
+		instanceRef.current.configure(omitBy(i18nRef.current, isUndefined));
+
+		if (!isUndefined(schema)) {
+			instanceRef.current.configure({ schema });
+		}
+
+		if (!isUndefined(submitFormat)) {
+			instanceRef.current.configure({ submitFormat });
+		}
+
+		if (!isUndefined(validate)) {
+			instanceRef.current.configure({ validate });
+		}
+
+		if (!isUndefined(worker)) {
+			instanceRef.current.configure({ worker });
+		}
+
+		// registered along with the instance, so plugins also see the operations made by children effects on mount
+		pluginsRef.current = {
+			plugins,
+			unsubscribes: map(plugins, plugin => {
+				return instanceRef.current.use(plugin);
+			})
+		};
 	}
 
 	const formRef = useRef<HTMLElement | null>(null);
@@ -116,19 +218,63 @@ const Form = ({
 		}
 	};
 
-	const submit = useCallback((e: FormEvent<HTMLFormElement> | KeyboardEvent<HTMLElement>) => {
-		if (e && isFunction(e.preventDefault)) {
-			e.preventDefault();
-		}
+	const focusFirstInvalid = useCallback(() => {
+		const ids = new Set(
+			map(instanceRef.current.getInvalidItems(), item => {
+				return item.id;
+			})
+		);
+
+		// follow document order, items register in mount order
+		const element = find((formRef.current || document).querySelectorAll<HTMLElement>('[data-id]'), element => {
+			return ids.has(element.getAttribute('data-id')!);
+		});
 
-		if (isFunction(onSubmitRef.current)) {
-			instanceRef.current.requestImmediateValue();
-			instanceRef.current.lastSubmit = now();
+		if (element) {
+			if (isFunction(element.focus)) {
+				element.focus();
+			}
 
-			onSubmitRef.current(instanceRef.current.getPayload());
+			if (isFunction(element.scrollIntoView)) {
+				element.scrollIntoView({ behavior: 'smooth', block: 'center' });
+			}
 		}
 	}, []);
 
+	const submit = useCallback(
+		(e: FormEvent<HTMLFormElement> | KeyboardEvent<HTMLElement>) => {
+			if (e && isFunction(e.preventDefault)) {
+				e.preventDefault();
+			}
+
+			if (isFunction(onSubmitRef.current)) {
+				const { blockInvalidSubmit, focusInvalid } = submitOptionsRef.current;
+				const submission = instanceRef.current.submit(
+					payload => {
+						return onSubmitRef.current?.(payload);
+					},
+					{
+						onInvalid: blockInvalidSubmit
+							? payload => {
+									if (focusInvalid) {
+										focusFirstInvalid();
+									}
+
+									return onInvalidSubmitRef.current?.(payload);
+								}
+							: undefined
+					}
+				);
+
+				// failures are exposed by "submitError"
+				if (submission) {
+					submission.catch(noop);
+				}
+			}
+		},
+		[focusFirstInvalid]
+	);
+
 	const emulateSubmit = useCallback(
 		(e: KeyboardEvent<HTMLElement>) => {
 			const enter = e.key === 'Enter';
@@ -146,13 +292,16 @@ const Form = ({
 			...state,
 			instance: instanceRef.current,
 			locked,
-			submit
+			revalidateOn,
+			showErrors,
+			submit,
+			validateOn
 		};
-	}, [state, locked, submit]);
+	}, [state, locked, revalidateOn, showErrors, submit, validateOn]);
 
 	// Listen to form changes
 	useEffect(() => {
-		const unsubscribe = instanceRef.current.onChange((payload, action) => {
+		const unsubscribe = instanceRef.current.onChange((...args) => {
 			// force context consumers to update
 			setState(state => {
 				return {
@@ -162,7 +311,7 @@ const Form = ({
 			});
 
 			if (isFunction(onChangeRef.current)) {
-				onChangeRef.current(payload, action);
+				onChangeRef.current(...args);
 			}
 		});
 
@@ -174,7 +323,7 @@ const Form = ({
 
 	// Listen to form errors changes
 	useEffect(() => {
-		const unsubscribe = instanceRef.current.onErrorChange((payload, action) => {
+		const unsubscribe = instanceRef.current.onErrorChange((...args) => {
 			// force context consumers to update
 			setState(state => {
 				return {
@@ -184,7 +333,28 @@ const Form = ({
 			});
 
 			if (isFunction(onErrorChangeRef.current)) {
-				onErrorChangeRef.current?.(payload, action);
+				onErrorChangeRef.current?.(...args);
+			}
+		});
+
+		return () => {
+			unsubscribe?.();
+		};
+	}, []);
+
+	// Listen to form warnings changes
+	useEffect(() => {
+		const unsubscribe = instanceRef.current.onWarningChange((...args) => {
+			// force context consumers to update
+			setState(state => {
+				return {
+					...state,
+					warnings: state.warnings + 1
+				};
+			});
+
+			if (isFunction(onWarningChangeRef.current)) {
+				onWarningChangeRef.current?.(...args);
 			}
 		});
 
@@ -193,6 +363,23 @@ const Form = ({
 		};
 	}, []);
 
+	// Listen to form status changes (e.g. pending validations)
+	useEffect(() => {
+		const unsubscribe = instanceRef.current.onStatusChange(() => {
+			// force context consumers to update
+			setState(state => {
+				return {
+					...state,
+					status: state.status + 1
+				};
+			});
+		});
+
+		return () => {
+			unsubscribe?.();
+		};
+	}, []);
+
 	// Listen for custom form:submit event
 	useEffect(() => {
 		if (init.current.listeningCustomEvent) {
@@ -229,17 +416,120 @@ const Form = ({
 		onErrorChangeRef.current = onErrorChange;
 	}, [onErrorChange]);
 
+	useEffect(() => {
+		onInvalidSubmitRef.current = onInvalidSubmit;
+	}, [onInvalidSubmit]);
+
 	useEffect(() => {
 		onSubmitRef.current = onSubmit;
 	}, [onSubmit]);
 
+	useEffect(() => {
+		onWarningChangeRef.current = onWarningChange;
+	}, [onWarningChange]);
+
+	useEffect(() => {
+		submitOptionsRef.current = { blockInvalidSubmit, focusInvalid };
+	}, [blockInvalidSubmit, focusInvalid]);
+
+	useEffect(() => {
+		if (!isUndefined(schema)) {
+			instanceRef.current.configure({ schema });
+		}
+	}, [schema]);
+
+	useEffect(() => {
+		// plugins are registered again only when they change, inline lists of the same plugins are kept
+		if (pluginsRef.current && isEqual(pluginsRef.current.plugins, plugins)) {
+			return;
+		}
+
+		forEach(pluginsRef.current?.unsubscribes, unsubscribe => {
+			unsubscribe();
+		});
+
+		pluginsRef.current = {
+			plugins,
+			unsubscribes: map(plugins, plugin => {
+				return instanceRef.current.use(plugin);
+			})
+		};
+	}, [plugins]);
+
+	useEffect(() => {
+		return () => {
+			forEach(pluginsRef.current?.unsubscribes, unsubscribe => {
+				unsubscribe();
+			});
+
+			pluginsRef.current = null;
+		};
+	}, []);
+
+	useEffect(() => {
+		if (!isUndefined(submitFormat)) {
+			instanceRef.current.configure({ submitFormat });
+		}
+	}, [submitFormat]);
+
+	useEffect(() => {
+		if (!isUndefined(validate)) {
+			instanceRef.current.configure({ validate });
+		}
+	}, [validate]);
+
+	useEffect(() => {
+		if (isUndefined(worker)) {
+			return;
+		}
+
+		instanceRef.current.configure({ worker });
+
+		// detached on unmount, so late responses never reach an unmounted form
+		return () => {
+			instanceRef.current.configure({ worker: null });
+		};
+	}, [worker]);
+
+	useEffect(() => {
+		const i18n = { fallbackLocale, formatError, locale, messages };
+
+		if (isEqual(i18nRef.current, i18n)) {
+			return;
+		}
+
+		i18nRef.current = i18n;
+		instanceRef.current.configure({
+			fallbackLocale,
+			formatError: formatError || null,
+			locale,
+			messages: messages || null
+		});
+
+		// messages are rendered in place by items, force them to update
+		setState(state => {
+			return {
+				...state,
+				status: state.status + 1
+			};
+		});
+	}, [fallbackLocale, formatError, locale, messages]);
+
 	const formChildren = util.renderChildren(children, null, {
 		...instanceRef.current.getPayload(),
 		submit
 	});
 
+	const provide = (children: ReactNode) => {
+		return (
+			<instanceContext.Provider value={instanceRef.current}>
+				<context.Provider value={contextValue}>{children}</context.Provider>
+			</instanceContext.Provider>
+		);
+	};
+
 	if (implicit) {
-		return <context.Provider value={contextValue}>{formChildren}</context.Provider>;
+		return provide(formChildren);
 	}
 
 	const formProps: any = {
@@ -254,7 +544,7 @@ const Form = ({
 		formProps.onKeyDown = emulateSubmit;
 	}
 
-	return <context.Provider value={contextValue}>{createElement(as, formProps, formChildren)}</context.Provider>;
+	return provide(createElement(as, formProps, formChildren));
 };
 
 const dispatchSubmit = (element: HTMLElement | null) => {
@@ -283,11 +573,21 @@ const Submit = ({ children }: Form.SubmitProps) => {
 		throw new Error('"Form.Submit" requires a render function as children.');
 	}
 
-	return <>{children({ submit })}</>;
+	return (
+		<>
+			{children({
+				isSubmitting: instance.isSubmitting,
+				lastSubmitResult: instance.lastSubmitResult,
+				submit,
+				submitCount: instance.submitCount,
+				submitError: instance.submitError
+			})}
+		</>
+	);
 };
 
 const Value = ({ path, children }: Form.ValueProps) => {
-	const { instance } = useContext(context);
+	const instance = useContext(instanceContext);
 
 	if (!instance) {
 		throw new Error('"Form.Value" must be used within a "Form" component.');
@@ -297,20 +597,25 @@ const Value = ({ path, children }: Form.ValueProps) => {
 		throw new Error('"Form.Value" requires a render function as children.');
 	}
 
-	const value = instance.get(path);
+	const value = useWatch(path);
 
 	return <>{children({ value })}</>;
 };
 
 // Static properties
+Form.createLocalWorker = createLocalWorker;
 Form.dispatchSubmit = dispatchSubmit;
+Form.exposeValidation = exposeValidation;
 Form.Instance = Instance;
 Form.Item = Item;
 Form.List = List;
+Form.registerServerErrorParser = registerServerErrorParser;
 Form.Submit = Submit;
 Form.useForm = useForm;
 Form.useFormHistory = useFormHistory;
+Form.useFormState = useFormState;
 Form.useNewForm = useNewForm;
+Form.useWatch = useWatch;
 Form.Value = Value;
 
 export default Form;
@@ -1,10 +1,33 @@
 import { describe, expect, it, vi, beforeEach } from 'vitest';
+import cloneDeep from 'lodash/cloneDeep';
+import get from 'lodash/get';
+import isObject from 'lodash/isObject';
+import reduce from 'lodash/reduce';
+import size from 'lodash/size';
 import { Instance, deepClean } from '@/form/instance';
+import { StandardSchemaV1 } from '@/form/schema';
+import { parseServerErrors, registerServerErrorParser } from '@/form/server-errors';
+import { createLocalWorker, exposeValidation, ValidationWorker } from '@/form/worker';
 
 const wait = (ms: number) => {
 	return new Promise(resolve => setTimeout(resolve, ms));
 };
 
+const createSchema = (validate: (value: any) => StandardSchemaV1.Issue[], options: { async?: boolean } = {}): StandardSchemaV1 => {
+	return {
+		'~standard': {
+			validate: value => {
+				const issues = validate(value);
+				const result = issues.length > 0 ? { issues } : { value };
+
+				return options.async ? wait(5).then(() => result) : result;
+			},
+			vendor: 'test',
+			version: 1
+		}
+	};
+};
+
 describe('/form/instance', () => {
 	let instance: Instance;
 
@@ -93,7 +116,7 @@ describe('/form/instance', () => {
 		it('should trigger onChange when setting a value', () => {
 			const triggerSpy = vi.spyOn(instance, 'triggerOnChange');
 			instance.set(['user', 'name'], 'test');
-			expect(triggerSpy).toHaveBeenCalledWith('SET');
+			expect(triggerSpy).toHaveBeenCalledWith('SET', [['user', 'name']]);
 		});
 
 		it('should return the updated value', () => {
@@ -111,7 +134,7 @@ describe('/form/instance', () => {
 		it('should trigger onChange when setting an error', () => {
 			const triggerSpy = vi.spyOn(instance, 'triggerOnChange');
 			instance.setError(['user', 'name'], 'Required field');
-			expect(triggerSpy).toHaveBeenCalledWith('SET_ERROR');
+			expect(triggerSpy).toHaveBeenCalledWith('SET_ERROR', [['user', 'name']]);
 		});
 
 		it('should add to requiredErrors when requiredError is true', () => {
@@ -130,6 +153,74 @@ describe('/form/instance', () => {
 			const result = instance.setError(['user', 'name'], 'Required field');
 			expect(result).toEqual({ user: { name: 'Required field' } });
 		});
+
+		it('should set error objects', () => {
+			instance.setError(['user', 'name'], { code: 'minLength', params: { min: 3 } });
+			instance.setError(['user', 'age'], 'Invalid age');
+			instance.unsetError(['user', 'age']);
+
+			expect(instance.errors).toEqual({ user: { name: { code: 'minLength', params: { min: 3 } } } });
+			expect(instance.getError(['user', 'name'])).toEqual({ code: 'minLength', params: { min: 3 } });
+		});
+	});
+
+	describe('createError', () => {
+		it('should create built-in messages without a message catalog', () => {
+			expect(instance.createError('required')).toEqual('Required Field.');
+			expect(instance.createError('list.min', { min: 2 })).toEqual('Minimum of 2 items required.');
+		});
+
+		it('should create error objects with a message catalog', () => {
+			instance.configure({ messages: { en: {} } });
+
+			expect(instance.createError('required')).toEqual({ code: 'required' });
+			expect(instance.createError('list.min', { min: 2 })).toEqual({ code: 'list.min', params: { min: 2 } });
+		});
+	});
+
+	describe('formatError', () => {
+		it('should return plain strings as is', () => {
+			expect(instance.formatError('Required field')).toEqual('Required field');
+			expect(instance.formatError(null)).toBeNull();
+		});
+
+		it('should fall back to message or code', () => {
+			expect(instance.formatError({ code: 'required', message: 'Required field' })).toEqual('Required field');
+			expect(instance.formatError({ code: 'invalid' })).toEqual('invalid');
+		});
+
+		it('should format error objects with formatError option', () => {
+			const formatError = vi.fn((error: Instance.ErrorObject) => {
+				return error.code === 'minLength' ? `At least ${error.params?.min} characters` : null;
+			});
+
+			instance.configure({ formatError });
+
+			expect(instance.formatError({ code: 'minLength', params: { min: 3 } }, ['name'])).toEqual('At least 3 characters');
+			expect(instance.formatError([{ code: 'minLength', params: { min: 3 } }, { code: 'email' }, 'Taken'])).toEqual([
+				'At least 3 characters',
+				'email',
+				'Taken'
+			]);
+			expect(formatError).toHaveBeenCalledWith({ code: 'minLength', params: { min: 3 } }, ['name']);
+		});
+
+		it('should format error objects with the message catalog', () => {
+			instance.configure({
+				locale: 'pt-BR',
+				messages: {
+					pt: { minLength: 'Pelo menos {min} caracteres.' }
+				}
+			});
+
+			expect(instance.formatError({ code: 'minLength', params: { min: 3 } })).toEqual('Pelo menos 3 caracteres.');
+			expect(instance.formatError({ code: 'required', message: 'Name is required' })).toEqual('Name is required');
+			expect(instance.formatError({ code: 'required' })).toEqual('Required Field.');
+		});
+
+		it('should not format nested errors', () => {
+			expect(instance.formatError({ user: { name: 'Required field' } })).toBeNull();
+		});
 	});
 
 	describe('unsetError', () => {
@@ -158,7 +249,7 @@ describe('/form/instance', () => {
 		it('should trigger onChange when unsetting an error', () => {
 			const triggerSpy = vi.spyOn(instance, 'triggerOnChange');
 			instance.unsetError(['user', 'name']);
-			expect(triggerSpy).toHaveBeenCalledWith('UNSET_ERROR');
+			expect(triggerSpy).toHaveBeenCalledWith('UNSET_ERROR', [['user', 'name']]);
 		});
 
 		it('should return the updated errors', () => {
@@ -180,7 +271,7 @@ describe('/form/instance', () => {
 		it('should trigger onChange when updating a value', () => {
 			const triggerSpy = vi.spyOn(instance, 'triggerOnChange');
 			instance.update(['count'], value => value + 1);
-			expect(triggerSpy).toHaveBeenCalledWith('SET');
+			expect(triggerSpy).toHaveBeenCalledWith('SET', [['count']]);
 		});
 
 		it('should return the updated value', () => {
@@ -212,7 +303,7 @@ describe('/form/instance', () => {
 		it('should trigger onChange when patching', () => {
 			const triggerSpy = vi.spyOn(instance, 'triggerOnChange');
 			instance.patch({ email: 'john@example.com' });
-			expect(triggerSpy).toHaveBeenCalledWith('PATCH');
+			expect(triggerSpy).toHaveBeenCalledWith('PATCH', [['email']]);
 		});
 	});
 
@@ -229,7 +320,7 @@ describe('/form/instance', () => {
 		it('should trigger onChange when replacing', () => {
 			const triggerSpy = vi.spyOn(instance, 'triggerOnChange');
 			instance.replace({ email: 'john@example.com' });
-			expect(triggerSpy).toHaveBeenCalledWith('REPLACE');
+			expect(triggerSpy).toHaveBeenCalledWith('REPLACE', [['name'], ['age'], ['email']]);
 		});
 	});
 
@@ -321,15 +412,32 @@ describe('/form/instance', () => {
 				{
 					changed: true,
 					changesCount: 1,
+					dirty: true,
 					errors: {},
 					errorsCount: 0,
 					instance,
+					isSubmitting: false,
 					lastChange: expect.any(Number),
 					lastSubmit: expect.any(Number),
+					lastSubmitResult: null,
 					requiredErrorsCount: 0,
-					value: { name: 'test' }
+					submitCount: 0,
+					submitError: null,
+					touched: {},
+					validating: false,
+					validatingFields: {},
+					value: { name: 'test' },
+					visited: {},
+					warnings: {},
+					warningsCount: 0
 				},
-				'SET'
+				'SET',
+				{
+					actions: ['SET'],
+					changes: [{ action: 'SET', path: ['name'], prevValue: undefined, value: 'test' }],
+					label: undefined,
+					paths: [['name']]
+				}
 			);
 		});
 
@@ -394,7 +502,8 @@ describe('/form/instance', () => {
 				expect.objectContaining({
 					value: { name: 'test' }
 				}),
-				'HISTORY_REDO'
+				'HISTORY_REDO',
+				expect.objectContaining({ actions: ['HISTORY_REDO'] })
 			);
 		});
 
@@ -409,7 +518,8 @@ describe('/form/instance', () => {
 				expect.objectContaining({
 					value: { name: 'test' }
 				}),
-				'HISTORY_UNDO'
+				'HISTORY_UNDO',
+				expect.objectContaining({ actions: ['HISTORY_UNDO'] })
 			);
 		});
 
@@ -424,7 +534,8 @@ describe('/form/instance', () => {
 				expect.objectContaining({
 					value: { name: 'test' }
 				}),
-				'HISTORY_REPLACE'
+				'HISTORY_REPLACE',
+				expect.objectContaining({ actions: ['HISTORY_REPLACE'] })
 			);
 		});
 	});
@@ -441,13 +552,24 @@ describe('/form/instance', () => {
 				{
 					changed: false,
 					changesCount: 0,
+					dirty: false,
 					errors: { name: 'Required field' },
 					errorsCount: 1,
 					instance,
+					isSubmitting: false,
 					lastChange: expect.any(Number),
 					lastSubmit: 0,
+					lastSubmitResult: null,
 					requiredErrorsCount: 0,
-					value: {}
+					submitCount: 0,
+					submitError: null,
+					touched: {},
+					validating: false,
+					validatingFields: {},
+					value: {},
+					visited: {},
+					warnings: {},
+					warningsCount: 0
 				},
 				'SET_ERROR'
 			);
@@ -620,18 +742,2049 @@ describe('/form/instance', () => {
 		});
 	});
 
-	describe('requestImmediateValue', () => {
-		it('should call reportFormImmediate on all registered items', () => {
-			const item1 = { id: 'item1', reportFormImmediate: vi.fn() };
-			const item2 = { id: 'item2', reportFormImmediate: vi.fn() };
+	describe('subscribe', () => {
+		it('should notify subscribers synchronously on every channel', async () => {
+			const listener = vi.fn();
+			const unsubscribe = instance.subscribe(listener);
 
-			instance.registerItem(item1);
-			instance.registerItem(item2);
+			instance.set(['name'], 'John');
+			expect(listener).toHaveBeenCalledTimes(1);
 
-			instance.requestImmediateValue();
+			instance.setError(['name'], 'Invalid');
+			instance.setWarning(['name'], 'Weak');
+			expect(listener).toHaveBeenCalledTimes(3);
 
-			expect(item1.reportFormImmediate).toHaveBeenCalled();
-			expect(item2.reportFormImmediate).toHaveBeenCalled();
+			// once more when "changed" and "changesCount" are updated
+			await wait(15);
+			expect(listener).toHaveBeenCalledTimes(4);
+
+			unsubscribe();
+			instance.set(['name'], 'Jane');
+			expect(listener).toHaveBeenCalledTimes(4);
+		});
+
+		it('should throw if listener is not a function', () => {
+			expect(() => {
+				// @ts-expect-error
+				instance.subscribe(null);
+			}).toThrow('listener must be a function.');
+		});
+	});
+
+	describe('path notifications', () => {
+		const createItem = (path: Instance.Path) => {
+			return {
+				getPath: () => {
+					return path;
+				},
+				id: path.join('.'),
+				notify: vi.fn(),
+				reportFormImmediate: vi.fn()
+			};
+		};
+
+		it('should notify only items related to the changed paths', () => {
+			const user = createItem(['user']);
+			const name = createItem(['user', 'name']);
+			const age = createItem(['age']);
+			const greeting = createItem(['greeting']);
+
+			instance.registerItem(user);
+			instance.registerItem(name);
+			instance.registerItem(age);
+			instance.registerItem(greeting);
+			instance.registerDependencies(['greeting'], [['user', 'name']]);
+
+			instance.set(['user', 'name'], 'John');
+
+			expect(user.notify).toHaveBeenCalledTimes(1);
+			expect(name.notify).toHaveBeenCalledTimes(1);
+			expect(age.notify).not.toHaveBeenCalled();
+			expect(greeting.notify).toHaveBeenCalledTimes(1);
+
+			instance.setError(['age'], 'Invalid');
+
+			expect(age.notify).toHaveBeenCalledTimes(1);
+			expect(name.notify).toHaveBeenCalledTimes(1);
+
+			instance.patch({ age: 30 });
+
+			expect(age.notify).toHaveBeenCalledTimes(2);
+			expect(user.notify).toHaveBeenCalledTimes(1);
+		});
+
+		it('should notify every item on whole form changes', () => {
+			const name = createItem(['name']);
+			const age = createItem(['age']);
+
+			instance.registerItem(name);
+			instance.registerItem(age);
+			instance.reset();
+
+			expect(name.notify).toHaveBeenCalledTimes(1);
+			expect(age.notify).toHaveBeenCalledTimes(1);
+		});
+
+		it('should notify only replaced entries', () => {
+			const name = createItem(['name']);
+			const tags = createItem(['tags']);
+			const value = { name: 'John', tags: ['a'] };
+
+			instance.value = value;
+			instance.registerItem(name);
+			instance.registerItem(tags);
+			instance.replace({ ...value, name: 'Jane' });
+
+			expect(name.notify).toHaveBeenCalledTimes(1);
+			expect(tags.notify).not.toHaveBeenCalled();
+		});
+
+		it('should not notify items about form level validations', async () => {
+			const name = createItem(['name']);
+
+			instance.registerItem(name);
+			await instance.setValidating([], Promise.resolve());
+
+			expect(name.notify).not.toHaveBeenCalled();
+
+			await instance.setValidating(['name'], Promise.resolve());
+
+			expect(name.notify).toHaveBeenCalledTimes(2);
+		});
+
+		it('should flush cache only for related paths', () => {
+			instance.value = { age: 30, user: { name: 'John' } };
+
+			expect(instance.get(['age'])).toEqual(30);
+			expect(instance.get(['user', 'name'])).toEqual('John');
+
+			// modify value internally, flushing only "user"
+			instance.value = { age: 31, user: { name: 'Jane' } };
+			instance.triggerOnChange('SET', [['user']]);
+
+			expect(instance.get(['age'])).toEqual(30);
+			expect(instance.get(['user', 'name'])).toEqual('Jane');
+		});
+	});
+
+	describe('structural sharing', () => {
+		const createValue = (length: number = 100) => {
+			return {
+				sections: Array.from({ length }, (_, section) => {
+					return {
+						fields: Array.from({ length }, (_, field) => {
+							return { name: `field ${section}.${field}`, value: field };
+						})
+					};
+				})
+			};
+		};
+
+		it('should keep untouched branches', () => {
+			instance = new Instance(createValue());
+
+			const prevValue = instance.value;
+
+			instance.set(['sections', 1, 'fields', 2, 'value'], 'changed');
+
+			expect(instance.value.sections[1].fields[2].value).toEqual('changed');
+			expect(prevValue.sections[1].fields[2].value).toEqual(2);
+			expect(instance.value.sections[0]).toBe(prevValue.sections[0]);
+			expect(instance.value.sections[1].fields[1]).toBe(prevValue.sections[1].fields[1]);
+
+			instance.setError(['sections', 1, 'fields', 2, 'value'], 'Invalid');
+
+			const prevErrors = instance.errors;
+
+			instance.setError(['sections', 3, 'fields', 0, 'value'], 'Invalid');
+			instance.unsetError(['sections', 3, 'fields', 0, 'value']);
+
+			expect(instance.getError(['sections', 1])).toBe(get(prevErrors, ['sections', 1]));
+		});
+
+		it('should update values in time proportional to the path depth, not to the form size', () => {
+			// nodes not shared between two trees, i.e. copied by the update
+			const countCopies = (prev: any, next: any): number => {
+				if (prev === next || !isObject(next)) {
+					return 0;
+				}
+
+				return reduce(next, (count, value, key) => count + countCopies(get(prev, key), value), 1);
+			};
+
+			const measure = (length: number) => {
+				const copies: number[] = [];
+
+				instance = new Instance(createValue(length));
+
+				for (let i = 0; i < 100; i++) {
+					const path = ['sections', i % 10, 'fields', i % 7, 'value'];
+					const prevErrors = instance.errors;
+					const prevValue = instance.value;
+
+					instance.set(path, i);
+					instance.setError(path, 'Invalid');
+					copies.push(countCopies(prevValue, instance.value) + countCopies(prevErrors, instance.errors));
+				}
+
+				return copies;
+			};
+
+			const small = measure(10);
+
+			// 100 fields against 10,000 fields, copying the whole tree on every set would copy thousands of nodes
+			expect(measure(100)).toEqual(small);
+			expect(instance.value.sections[9].fields[1].value).toEqual(99);
+			expect(Math.max(...small)).toBeLessThanOrEqual(10);
+		});
+	});
+
+	describe('transaction', () => {
+		it('should notify batched changes once', async () => {
+			const onChange = vi.fn();
+			const onErrorChange = vi.fn();
+			const subscriber = vi.fn();
+
+			instance.onChange(onChange);
+			instance.onErrorChange(onErrorChange);
+			instance.subscribe(subscriber);
+
+			const result = instance.batch(() => {
+				instance.set(['city'], 'New York');
+				instance.set(['state'], 'NY');
+				instance.setError(['zip'], 'Invalid');
+
+				// changes are visible within the batch
+				return instance.get(['city']);
+			});
+
+			expect(result).toEqual('New York');
+			expect(instance.value).toEqual({ city: 'New York', state: 'NY' });
+
+			// reported right away, not debounced
+			expect(onChange).toHaveBeenCalledTimes(1);
+			expect(onChange).toHaveBeenCalledWith(expect.objectContaining({ value: { city: 'New York', state: 'NY' } }), 'BATCH', {
+				actions: ['SET', 'SET', 'SET_ERROR'],
+				changes: [
+					{ action: 'SET', path: ['city'], prevValue: undefined, value: 'New York' },
+					{ action: 'SET', path: ['state'], prevValue: undefined, value: 'NY' }
+				],
+				label: undefined,
+				paths: [['city'], ['state'], ['zip']]
+			});
+
+			expect(onErrorChange).toHaveBeenCalledTimes(1);
+			expect(subscriber).toHaveBeenCalledTimes(2);
+
+			await wait(15);
+			expect(onChange).toHaveBeenCalledTimes(1);
+		});
+
+		it('should label transactions and merge nested ones', () => {
+			const onChange = vi.fn();
+
+			instance.onChange(onChange);
+			instance.transaction('address', () => {
+				instance.set(['city'], 'New York');
+				instance.transaction('state', () => {
+					instance.set(['state'], 'NY');
+					instance.set(['state'], 'NJ');
+				});
+			});
+
+			expect(onChange).toHaveBeenCalledTimes(1);
+			expect(onChange.mock.calls[0][2]).toEqual({
+				actions: ['SET', 'SET', 'SET'],
+				changes: [
+					{ action: 'SET', path: ['city'], prevValue: undefined, value: 'New York' },
+					{ action: 'SET', path: ['state'], prevValue: undefined, value: 'NY' },
+					{ action: 'SET', path: ['state'], prevValue: 'NY', value: 'NJ' }
+				],
+				label: 'address',
+				paths: [['city'], ['state']]
+			});
+		});
+
+		it('should notify only items related to the touched paths', () => {
+			const city = { getPath: () => ['city'], id: 'city', notify: vi.fn(), reportFormImmediate: vi.fn() };
+			const name = { getPath: () => ['name'], id: 'name', notify: vi.fn(), reportFormImmediate: vi.fn() };
+
+			instance.registerItem(city);
+			instance.registerItem(name);
+			instance.batch(() => {
+				instance.set(['city'], 'New York');
+				instance.setTouched(['city']);
+			});
+
+			expect(city.notify).toHaveBeenCalledTimes(1);
+			expect(name.notify).not.toHaveBeenCalled();
+		});
+
+		it('should roll back and notify nothing when the callback throws', async () => {
+			const onChange = vi.fn();
+			const subscriber = vi.fn();
+
+			instance.value = { city: 'Boston' };
+			instance.setError(['zip'], 'Invalid', true);
+			instance.onChange(onChange);
+			instance.subscribe(subscriber);
+
+			expect(() => {
+				instance.batch(() => {
+					instance.set(['city'], 'New York');
+					instance.unsetError(['zip']);
+					instance.setTouched(['city']);
+					throw new Error('Failed');
+				});
+			}).toThrow('Failed');
+
+			expect(instance.value).toEqual({ city: 'Boston' });
+			expect(instance.get(['city'])).toEqual('Boston');
+			expect(instance.errors).toEqual({ zip: 'Invalid' });
+			expect(instance.requiredErrors.has(['zip'])).toEqual(true);
+			expect(instance.touched).toEqual({});
+			expect(subscriber).not.toHaveBeenCalled();
+
+			await wait(15);
+			expect(onChange).not.toHaveBeenCalled();
+		});
+
+		it('should roll back only the nested transaction that throws', () => {
+			const onChange = vi.fn();
+
+			instance.onChange(onChange);
+			instance.batch(() => {
+				instance.set(['city'], 'New York');
+
+				try {
+					instance.batch(() => {
+						instance.set(['state'], 'NY');
+						throw new Error('Failed');
+					});
+				} catch {
+					// ignore
+				}
+			});
+
+			expect(instance.value).toEqual({ city: 'New York' });
+			expect(onChange).toHaveBeenCalledTimes(1);
+		});
+	});
+
+	describe('notify', () => {
+		it('should notify synchronously', () => {
+			const listener = vi.fn();
+
+			instance = new Instance({}, { notify: 'sync' });
+			instance.onChange(listener);
+			instance.set(['name'], 'John');
+
+			expect(listener).toHaveBeenCalledWith(
+				expect.objectContaining({ changed: true, changesCount: 1 }),
+				'SET',
+				expect.objectContaining({ actions: ['SET'] })
+			);
+			expect(instance.getPayload().changesCount).toEqual(1);
+		});
+
+		it('should notify on the next microtask', async () => {
+			const listener = vi.fn();
+
+			instance = new Instance({}, { notify: 'microtask' });
+			instance.onChange(listener);
+			instance.set(['name'], 'John');
+			instance.set(['age'], 30);
+
+			expect(listener).not.toHaveBeenCalled();
+
+			await Promise.resolve();
+
+			expect(listener).toHaveBeenCalledTimes(1);
+		});
+
+		it('should notify on the next animation frame', async () => {
+			const listener = vi.fn();
+
+			instance = new Instance({}, { notify: 'raf' });
+			instance.onChange(listener);
+			instance.set(['name'], 'John');
+
+			expect(listener).not.toHaveBeenCalled();
+
+			await wait(50);
+
+			expect(listener).toHaveBeenCalledTimes(1);
+		});
+
+		it('should debounce with a custom wait', async () => {
+			const listener = vi.fn();
+
+			instance = new Instance({}, { notifyWait: 30 });
+			instance.onChange(listener);
+			instance.set(['name'], 'John');
+			await wait(20);
+			instance.set(['name'], 'Jane');
+			await wait(20);
+
+			expect(listener).not.toHaveBeenCalled();
+
+			await wait(20);
+
+			expect(listener).toHaveBeenCalledTimes(1);
+		});
+
+		it('should deliver pending notifications on flush', async () => {
+			const listener = vi.fn();
+
+			instance.onChange(listener);
+			instance.flush();
+
+			expect(listener).not.toHaveBeenCalled();
+
+			instance.set(['name'], 'John');
+			instance.flush();
+
+			expect(listener).toHaveBeenCalledTimes(1);
+			expect(instance.changesCount).toEqual(1);
+
+			await wait(15);
+
+			expect(listener).toHaveBeenCalledTimes(1);
+		});
+
+		it('should report every coalesced action', () => {
+			const listener = vi.fn();
+
+			instance.onChange(listener);
+			instance.set(['name'], 'John');
+			instance.listInsert(['tags'], 0, 'a');
+			instance.flush();
+
+			expect(listener).toHaveBeenCalledWith(expect.objectContaining({ value: { name: 'John', tags: ['a'] } }), 'LIST_INSERT', {
+				actions: ['SET', 'LIST_INSERT'],
+				changes: [
+					{ action: 'SET', path: ['name'], prevValue: undefined, value: 'John' },
+					{ action: 'LIST_INSERT', path: ['tags'], prevValue: undefined, value: ['a'] }
+				],
+				label: undefined,
+				paths: [['name'], ['tags']]
+			});
+		});
+	});
+
+	describe('change journal', () => {
+		it('should record previous and next values of each operation', () => {
+			const listener = vi.fn();
+			const user = { name: 'John' };
+
+			instance = new Instance({ age: 30, tags: ['a', 'b'], user }, { notify: 'microtask' });
+			instance.onChange(listener);
+			instance.set(['user', 'name'], 'Jane');
+			instance.patch({ age: 31 });
+			instance.listMove(['tags'], 0, 1);
+			instance.setError(['age'], 'Invalid');
+			instance.flush();
+
+			expect(listener).toHaveBeenCalledTimes(1);
+			expect(listener.mock.calls[0][2].changes).toEqual([
+				{ action: 'SET', path: ['user', 'name'], prevValue: 'John', value: 'Jane' },
+				{ action: 'PATCH', path: ['age'], prevValue: 30, value: 31 },
+				{ action: 'LIST_MOVE', path: ['tags'], prevValue: ['a', 'b'], value: ['b', 'a'] }
+			]);
+		});
+
+		it('should record whole value changes at the root path', () => {
+			const listener = vi.fn();
+
+			instance = new Instance({ name: 'John' }, { notify: 'sync' });
+			instance.onChange(listener);
+			instance.set(['name'], 'Jane');
+
+			const prevValue = instance.value;
+
+			instance.reset();
+
+			expect(listener.mock.calls[1][2].changes).toEqual([
+				{ action: 'RESET', path: [], prevValue: { name: 'Jane' }, value: { name: 'John' } }
+			]);
+			expect(listener.mock.calls[1][2].changes[0].prevValue).toBe(prevValue);
+		});
+
+		it('should leave rolled back changes out', () => {
+			const listener = vi.fn();
+
+			instance.onChange(listener);
+			instance.batch(() => {
+				instance.set(['city'], 'New York');
+
+				expect(() => {
+					instance.transaction('state', () => {
+						instance.set(['state'], 'NY');
+						throw new Error('Rollback');
+					});
+				}).toThrow('Rollback');
+
+				instance.set(['zip'], '10001');
+			});
+
+			expect(listener.mock.calls[0][2].actions).toEqual(['SET', 'SET']);
+			expect(listener.mock.calls[0][2].changes).toEqual([
+				{ action: 'SET', path: ['city'], prevValue: undefined, value: 'New York' },
+				{ action: 'SET', path: ['zip'], prevValue: undefined, value: '10001' }
+			]);
+		});
+	});
+
+	describe('json patch', () => {
+		beforeEach(() => {
+			instance = new Instance({ items: [{ name: 'a' }, { name: 'b' }], user: { name: 'John' } });
+		});
+
+		it('should diff against the initial value', () => {
+			instance.set(['user', 'name'], 'Jane');
+			instance.listInsert(['items'], 1, { name: 'c' });
+			instance.listMove(['items'], 2, 0);
+
+			expect(instance.diff()).toEqual([
+				{ from: '/items/1', op: 'move', path: '/items/0' },
+				{ op: 'add', path: '/items/2', value: { name: 'c' } },
+				{ op: 'replace', path: '/user/name', value: 'Jane' }
+			]);
+
+			expect(instance.diff(instance.value)).toEqual([]);
+		});
+
+		it('should apply operations as a single change', () => {
+			const listener = vi.fn();
+
+			instance.onChange(listener);
+			instance.setError(['items', 1, 'name'], 'Invalid');
+			instance.applyPatch([
+				{ op: 'add', path: '/items/-', value: { name: 'c' } },
+				{ from: '/items/1', op: 'move', path: '/items/0' },
+				{ op: 'remove', path: '/user/name' },
+				{ from: '/items/2', op: 'copy', path: '/user/item' },
+				{ op: 'test', path: '/items/0/name', value: 'b' }
+			]);
+
+			expect(instance.value).toEqual({
+				items: [{ name: 'b' }, { name: 'a' }, { name: 'c' }],
+				user: { item: { name: 'c' } }
+			});
+
+			// errors follow moved items
+			expect(instance.errors).toEqual({ items: [{ name: 'Invalid' }] });
+			expect(listener).toHaveBeenCalledTimes(1);
+			expect(listener.mock.calls[0][1]).toEqual('BATCH');
+			expect(listener.mock.calls[0][2]).toEqual(
+				expect.objectContaining({
+					actions: ['SET_ERROR', 'LIST_INSERT', 'SET_ERROR', 'LIST_MOVE', 'SET', 'SET'],
+					label: 'applyPatch'
+				})
+			);
+		});
+
+		it('should apply nothing when an operation fails', () => {
+			const listener = vi.fn();
+			const value = instance.value;
+
+			instance.onChange(listener);
+
+			expect(() => {
+				instance.applyPatch([
+					{ op: 'replace', path: '/user/name', value: 'Jane' },
+					{ op: 'test', path: '/user/name', value: 'John' }
+				]);
+			}).toThrow('Failed "test" operation at "/user/name".');
+
+			expect(() => {
+				instance.applyPatch([{ op: 'add', path: '/items/5', value: { name: 'c' } }]);
+			}).toThrow('Invalid "add" operation at "/items/5".');
+
+			expect(() => {
+				instance.applyPatch([{ op: 'remove', path: '/user/email' }]);
+			}).toThrow('Invalid "remove" operation at "/user/email".');
+
+			expect(() => {
+				instance.applyPatch([{ from: '/items/0', op: 'move', path: '/items/0/sub' }]);
+			}).toThrow('Invalid "move" operation at "/items/0/sub".');
+
+			expect(() => {
+				instance.applyPatch([{ from: '/items/0', op: 'move', path: '/items/2' }]);
+			}).toThrow('Invalid "move" operation at "/items/2".');
+
+			expect(instance.value).toBe(value);
+			expect(listener).not.toHaveBeenCalled();
+		});
+
+		it('should move list items to the end', () => {
+			instance.applyPatch([{ from: '/items/0', op: 'move', path: '/items/-' }]);
+
+			expect(instance.value.items).toEqual([{ name: 'b' }, { name: 'a' }]);
+
+			instance.applyPatch([{ from: '/items/0', op: 'move', path: '/items/1' }]);
+
+			expect(instance.value.items).toEqual([{ name: 'a' }, { name: 'b' }]);
+		});
+
+		it('should replay changes on another instance', () => {
+			const remote = new Instance(cloneDeep(instance.value));
+
+			instance.listRemove(['items'], 0);
+			instance.set(['user', 'email'], 'john@example.com');
+			remote.applyPatch(instance.diff());
+
+			expect(remote.value).toEqual(instance.value);
+		});
+	});
+
+	describe('plugins', () => {
+		it('should transform operations', () => {
+			const afterSet = vi.fn();
+
+			instance.use({
+				afterSet,
+				beforeSet: operation => {
+					return operation.action === 'SET' && typeof operation.value === 'string'
+						? { ...operation, value: operation.value.trim() }
+						: undefined;
+				}
+			});
+
+			instance.set(['name'], '  John ');
+			instance.update(['email'], () => ' john@example.com ');
+			instance.patch({ age: 30 });
+
+			expect(instance.value).toEqual({ age: 30, email: 'john@example.com', name: 'John' });
+			expect(afterSet).toHaveBeenCalledTimes(3);
+			expect(afterSet).toHaveBeenCalledWith({ action: 'SET', path: ['name'], value: 'John' }, instance);
+			expect(afterSet).toHaveBeenCalledWith({ action: 'PATCH', path: [], value: { age: 30 } }, instance);
+		});
+
+		it('should cancel operations', () => {
+			const listener = vi.fn();
+
+			instance = new Instance({ id: 1, name: 'John' }, { notify: 'sync' });
+			instance.onChange(listener);
+			instance.setError(['id'], 'Invalid');
+			instance.use({
+				beforeSet: ({ action, path, value }) => {
+					return path[0] !== 'id' && !(action === 'PATCH' && 'id' in value) && action !== 'REPLACE';
+				}
+			});
+
+			instance.set(['id'], 2);
+			instance.patch({ id: 2 });
+			instance.replace({ id: 2, name: 'Jane' });
+			instance.unsetError(['id']);
+			instance.set(['name'], 'Jane');
+
+			expect(instance.value).toEqual({ id: 1, name: 'Jane' });
+			expect(instance.errors).toEqual({ id: 'Invalid' });
+			expect(listener).toHaveBeenCalledTimes(1);
+		});
+
+		it('should run hooks for list, reset and history operations', () => {
+			const afterSet = vi.fn();
+
+			instance = new Instance({ items: ['a', 'b'], name: 'John' });
+			instance.use({
+				afterSet: ({ action, path, value }) => {
+					afterSet(action, path, value);
+				},
+				beforeSet: operation => {
+					return operation.action === 'LIST_INSERT' ? { ...operation, value: operation.value.toUpperCase() } : undefined;
+				}
+			});
+
+			instance.listInsert(['items'], 1, 'c');
+			instance.listMove(['items'], 0, 2);
+			instance.listRemove(['items'], 0);
+			instance.set(['name'], 'Jane');
+			instance.resetField(['name']);
+			instance.historyAction('UNDO', { items: ['x'], name: 'John' });
+			instance.reset();
+
+			expect(instance.value).toEqual({ items: ['a', 'b'], name: 'John' });
+			expect(afterSet.mock.calls).toEqual([
+				['LIST_INSERT', ['items', 1], 'C'],
+				['LIST_MOVE', ['items', 0], 2],
+				['LIST_REMOVE', ['items', 0], undefined],
+				['SET', ['name'], 'Jane'],
+				['UNSET_ERROR', ['name'], undefined],
+				['RESET_FIELD', ['name'], 'John'],
+				['HISTORY_UNDO', [], { items: ['x'], name: 'John' }],
+				['RESET', [], { items: ['a', 'b'], name: 'John' }]
+			]);
+		});
+
+		it('should cancel list, reset, history and patch removal operations', () => {
+			const listener = vi.fn();
+
+			instance = new Instance({ items: ['a', 'b'], meta: { id: 1 }, name: 'John' }, { notify: 'sync' });
+			instance.set(['name'], 'Jane');
+			instance.onChange(listener);
+			instance.use({
+				beforeSet: ({ action }) => {
+					return action === 'SET';
+				}
+			});
+
+			instance.listInsert(['items'], 0, 'c');
+			instance.listMove(['items'], 0, 1);
+			instance.listRemove(['items'], 0);
+			instance.resetField(['name']);
+			instance.reset();
+			instance.historyAction('UNDO', { items: [], meta: {}, name: '' });
+			instance.applyPatch([
+				{ op: 'remove', path: '/meta/id' },
+				{ op: 'remove', path: '/items/0' }
+			]);
+
+			expect(instance.value).toEqual({ items: ['a', 'b'], meta: { id: 1 }, name: 'Jane' });
+			expect(listener).not.toHaveBeenCalled();
+		});
+
+		it('should see whole value operations with the new value', () => {
+			instance = new Instance({ id: 1, name: 'John' });
+			instance.use({
+				beforeSet: ({ action, path, value }, instance) => {
+					if (size(path) > 0) {
+						return path[0] !== 'id';
+					}
+
+					return (action === 'PATCH' && !('id' in value)) || value?.id === instance.value.id;
+				}
+			});
+
+			instance.patch({ id: 2 });
+			instance.replace({ id: 2, name: 'Jane' });
+			instance.historyAction('UNDO', { id: 2, name: 'Jane' });
+			instance.patch({ name: 'Jane' });
+
+			expect(instance.value).toEqual({ id: 1, name: 'Jane' });
+
+			instance.reset();
+
+			expect(instance.value).toEqual({ id: 1, name: 'John' });
+		});
+
+		it('should run afterSet hooks once transactions commit', () => {
+			const afterSet = vi.fn();
+
+			instance.use({ afterSet });
+
+			expect(() => {
+				instance.transaction('failed', () => {
+					instance.set(['name'], 'John');
+					throw new Error('Failed');
+				});
+			}).toThrow('Failed');
+
+			expect(() => {
+				instance.applyPatch([
+					{ op: 'add', path: '/name', value: 'John' },
+					{ op: 'test', path: '/name', value: 'Jane' }
+				]);
+			}).toThrow('Failed "test" operation at "/name".');
+
+			expect(afterSet).not.toHaveBeenCalled();
+
+			instance.transaction('nested', () => {
+				instance.set(['name'], 'Jane');
+
+				expect(() => {
+					instance.batch(() => {
+						instance.set(['email'], 'jane@example.com');
+						throw new Error('Failed');
+					});
+				}).toThrow('Failed');
+
+				expect(afterSet).not.toHaveBeenCalled();
+			});
+
+			expect(instance.value).toEqual({ name: 'Jane' });
+			expect(afterSet.mock.calls).toEqual([[{ action: 'SET', path: ['name'], value: 'Jane' }, instance]]);
+		});
+
+		it('should chain plugins in registration order', () => {
+			instance.use({
+				beforeSet: operation => {
+					return { ...operation, value: `${operation.value}a` };
+				}
+			});
+			instance.use({
+				beforeSet: operation => {
+					return { ...operation, value: `${operation.value}b` };
+				}
+			});
+
+			instance.set(['name'], '');
+			instance.setError(['name'], 'error:');
+
+			expect(instance.value).toEqual({ name: 'ab' });
+			expect(instance.errors).toEqual({ name: 'error:ab' });
+		});
+
+		it('should cancel submits', () => {
+			const beforeSubmit = vi.fn(() => false);
+			const onSubmit = vi.fn();
+
+			instance.set(['name'], 'John');
+			instance.use({ beforeSubmit });
+			instance.submit(onSubmit);
+
+			expect(beforeSubmit).toHaveBeenCalledWith(expect.objectContaining({ value: { name: 'John' } }), instance);
+			expect(onSubmit).not.toHaveBeenCalled();
+			expect(instance.submitCount).toEqual(0);
+		});
+
+		it('should report errors', async () => {
+			const onError = vi.fn();
+			const error = new Error('Forbidden');
+
+			instance.use({
+				beforeSet: ({ path }) => {
+					if (path[0] === 'id') {
+						throw error;
+					}
+				},
+				onError
+			});
+
+			expect(() => {
+				instance.set(['id'], 1);
+			}).toThrow('Forbidden');
+
+			expect(onError).toHaveBeenCalledWith(error, { action: 'SET', path: ['id'], value: 1 }, instance);
+
+			await expect(instance.submit(() => Promise.reject(error))).rejects.toThrow('Forbidden');
+			expect(onError).toHaveBeenCalledWith(error, null, instance);
+		});
+
+		it('should run cleanups when removed', () => {
+			const cleanup = vi.fn();
+			const beforeSet = vi.fn();
+			const setup = vi.fn(() => cleanup);
+			const plugin = { beforeSet, setup };
+			const unsubscribe = instance.use(plugin);
+
+			instance.use(plugin);
+
+			expect(setup).toHaveBeenCalledTimes(1);
+			expect(setup).toHaveBeenCalledWith(instance);
+
+			unsubscribe();
+			unsubscribe();
+			instance.set(['name'], 'John');
+
+			expect(cleanup).toHaveBeenCalledTimes(1);
+			expect(beforeSet).not.toHaveBeenCalled();
+		});
+	});
+
+	describe('dirty tracking', () => {
+		beforeEach(() => {
+			instance = new Instance({ user: { name: 'John', tags: ['a'] }, age: 30 });
+		});
+
+		it('should keep a baseline copy of the initial value', () => {
+			instance.set(['user', 'name'], 'Jane');
+
+			expect(instance.initialValue).toEqual({ user: { name: 'John', tags: ['a'] }, age: 30 });
+		});
+
+		it('should report dirty state against the baseline', () => {
+			expect(instance.isDirty()).toEqual(false);
+			expect(instance.getPayload().dirty).toEqual(false);
+
+			instance.set(['user', 'name'], 'Jane');
+
+			expect(instance.isDirty()).toEqual(true);
+			expect(instance.isDirty(['user'])).toEqual(true);
+			expect(instance.isDirty(['user', 'name'])).toEqual(true);
+			expect(instance.isDirty(['age'])).toEqual(false);
+			expect(instance.getPayload().dirty).toEqual(true);
+		});
+
+		it('should not be dirty after reverting a value', () => {
+			instance.set(['user', 'name'], 'Jane');
+			instance.set(['user', 'name'], 'John');
+
+			expect(instance.isDirty()).toEqual(false);
+			expect(instance.dirtyPaths()).toEqual([]);
+		});
+
+		it('should compare the whole value only when it changes', () => {
+			let reads = 0;
+			const user = {
+				get name() {
+					reads += 1;
+
+					return 'John';
+				}
+			};
+
+			instance = new Instance({ user });
+			instance.initialValue = { user: { name: 'John' } };
+
+			expect(instance.getPayload().dirty).toEqual(false);
+
+			const prevReads = reads;
+
+			instance.setError(['user', 'name'], 'Invalid');
+			instance.setTouched(['user', 'name']);
+
+			expect(instance.getPayload().dirty).toEqual(false);
+			expect(reads).toEqual(prevReads);
+
+			instance.set(['age'], 30);
+
+			expect(instance.getPayload().dirty).toEqual(true);
+		});
+
+		it('should list dirty leaf paths', () => {
+			instance.set(['user', 'name'], 'Jane');
+			instance.set(['user', 'tags', 1], 'b');
+			instance.set(['email'], 'jane@example.com');
+
+			expect(instance.dirtyPaths()).toEqual([['user', 'name'], ['user', 'tags', 1], ['email']]);
+		});
+
+		it('should take the baseline from init', () => {
+			instance = new Instance();
+			instance.init({ name: 'John' });
+
+			expect(instance.initialValue).toEqual({ name: 'John' });
+			expect(instance.isDirty()).toEqual(false);
+		});
+
+		it('should replace value and baseline on reinitialize', () => {
+			const triggerSpy = vi.spyOn(instance, 'triggerOnChange');
+
+			instance.setError(['age'], 'Error');
+			instance.setTouched(['age']);
+			instance.reinitialize({ name: 'Jane' } as any);
+
+			expect(instance.value).toEqual({ name: 'Jane' });
+			expect(instance.initialValue).toEqual({ name: 'Jane' });
+			expect(instance.errors).toEqual({});
+			expect(instance.touched).toEqual({});
+			expect(instance.isDirty()).toEqual(false);
+			expect(triggerSpy).toHaveBeenCalledWith('REINITIALIZE');
+		});
+	});
+
+	describe('reset', () => {
+		beforeEach(() => {
+			instance = new Instance({ user: { name: 'John' }, age: 30 });
+		});
+
+		it('should restore baseline and clear errors and flags', () => {
+			const triggerSpy = vi.spyOn(instance, 'triggerOnChange');
+
+			instance.set(['user', 'name'], 'Jane');
+			instance.setError(['user', 'name'], 'Error', true);
+			instance.setTouched(['user', 'name']);
+			instance.setVisited(['user', 'name']);
+			instance.reset();
+
+			expect(instance.value).toEqual({ user: { name: 'John' }, age: 30 });
+			expect(instance.errors).toEqual({});
+			expect(instance.requiredErrorsCount()).toEqual(0);
+			expect(instance.touched).toEqual({});
+			expect(instance.visited).toEqual({});
+			expect(triggerSpy).toHaveBeenCalledWith('RESET');
+		});
+
+		it('should not share references with the baseline', () => {
+			instance.reset();
+			instance.value.user.name = 'Jane';
+
+			expect(instance.initialValue.user.name).toEqual('John');
+		});
+
+		it('should restore a single field', () => {
+			const triggerSpy = vi.spyOn(instance, 'triggerOnChange');
+
+			instance.set(['user', 'name'], 'Jane');
+			instance.set(['age'], 31);
+			instance.setError(['user', 'name'], 'Error', true);
+			instance.setError(['age'], 'Age error');
+			instance.setTouched(['user', 'name']);
+			instance.resetField(['user', 'name']);
+
+			expect(instance.value).toEqual({ user: { name: 'John' }, age: 31 });
+			expect(instance.errors).toEqual({ age: 'Age error' });
+			expect(instance.requiredErrorsCount()).toEqual(0);
+			expect(instance.touched).toEqual({});
+			expect(triggerSpy).toHaveBeenCalledWith('RESET_FIELD', [['user', 'name']]);
+		});
+
+		it('should remove fields missing from the baseline', () => {
+			instance.set(['email'], 'john@example.com');
+			instance.resetField(['email']);
+
+			expect(instance.value).toEqual({ user: { name: 'John' }, age: 30 });
+		});
+	});
+
+	describe('warnings', () => {
+		it('should set, get and unset warnings', () => {
+			instance.setWarning(['discount'], 'Discount looks unusually high');
+			instance.setWarning(['items', 0, 'price'], { code: 'lowPrice', severity: 'warning' });
+
+			expect(instance.getWarning(['discount'])).toEqual('Discount looks unusually high');
+			expect(instance.getWarning()).toEqual({
+				discount: 'Discount looks unusually high',
+				items: [{ price: { code: 'lowPrice', severity: 'warning' } }]
+			});
+
+			instance.unsetWarning(['items', 0, 'price']);
+
+			expect(instance.warnings).toEqual({ discount: 'Discount looks unusually high' });
+			expect(instance.getWarning(['items', 0, 'price'])).toBeNull();
+		});
+
+		it('should not count as errors', () => {
+			instance.setWarning(['discount'], 'Discount looks unusually high');
+
+			expect(instance.errorsCount()).toEqual(0);
+			expect(instance.requiredErrorsCount()).toEqual(0);
+			expect(instance.warningsCount()).toEqual(1);
+			expect(instance.getPayload()).toEqual(
+				expect.objectContaining({
+					errors: {},
+					warnings: { discount: 'Discount looks unusually high' },
+					warningsCount: 1
+				})
+			);
+		});
+
+		it('should not block submit', () => {
+			const onInvalid = vi.fn();
+			const onSubmit = vi.fn();
+
+			instance.setWarning(['discount'], 'Discount looks unusually high');
+			instance.submit(onSubmit, { onInvalid });
+
+			expect(onInvalid).not.toHaveBeenCalled();
+			expect(onSubmit).toHaveBeenCalled();
+		});
+
+		it('should notify onWarningChange listeners', () => {
+			const listener = vi.fn();
+			const onChange = vi.fn();
+
+			instance.onWarningChange(listener);
+			instance.onErrorChange(onChange);
+			instance.setWarning(['discount'], 'Discount looks unusually high');
+			instance.unsetWarning(['discount']);
+
+			expect(listener).toHaveBeenCalledTimes(2);
+			expect(listener).toHaveBeenCalledWith(expect.objectContaining({ warningsCount: 1 }), 'SET_WARNING');
+			expect(listener).toHaveBeenCalledWith(expect.objectContaining({ warningsCount: 0 }), 'UNSET_WARNING');
+			expect(onChange).not.toHaveBeenCalled();
+		});
+
+		it('should follow list items and be cleared on reset', () => {
+			instance = new Instance({ items: [{ price: 1 }, { price: 2 }] });
+			instance.setWarning(['items', 1, 'price'], 'Price looks low');
+			instance.listRemove(['items'], 0);
+
+			expect(instance.warnings).toEqual({ items: [{ price: 'Price looks low' }] });
+
+			instance.reset();
+
+			expect(instance.warnings).toEqual({});
+		});
+	});
+
+	describe('registerDependencies', () => {
+		it('should detect cycles', () => {
+			const warn = vi.spyOn(console, 'warn').mockImplementation(() => {});
+
+			instance.registerDependencies(['a'], [['b']]);
+			instance.registerDependencies(['b'], [['c'], ['d']]);
+
+			expect(instance.dependencyCycle(['a'])).toBeNull();
+			expect(warn).not.toHaveBeenCalled();
+
+			const unregister = instance.registerDependencies(['d'], [['a']]);
+
+			expect(instance.dependencyCycle(['a'])).toEqual([['a'], ['b'], ['d'], ['a']]);
+			expect(warn).toHaveBeenCalledWith('Form: dependency cycle detected: d -> a -> b -> d');
+
+			unregister();
+
+			expect(instance.dependencyCycle(['a'])).toBeNull();
+			warn.mockRestore();
+		});
+	});
+
+	describe('worker', () => {
+		const createManualWorker = () => {
+			const listeners = new Set<ValidationWorker.Listener>();
+			const requests: ValidationWorker.Request[] = [];
+
+			return {
+				addEventListener: (_: 'message', listener: ValidationWorker.Listener) => {
+					listeners.add(listener);
+				},
+				removeEventListener: (_: 'message', listener: ValidationWorker.Listener) => {
+					listeners.delete(listener);
+				},
+				postMessage: (message: ValidationWorker.Request) => {
+					requests.push(message);
+				},
+				listeners,
+				requests,
+				respond: (response: ValidationWorker.Response) => {
+					listeners.forEach(listener => {
+						listener({ data: response });
+					});
+				}
+			};
+		};
+
+		it('should validate in the worker and apply the returned errors', async () => {
+			const worker = createLocalWorker(scope => {
+				exposeValidation(
+					{
+						schema: createSchema(value => {
+							return value.name ? [] : [{ message: 'Name is required', path: ['name'] }];
+						}),
+						validate: value => {
+							return {
+								'items.1.qty': value.items[1].qty < 0 ? 'Invalid quantity' : null,
+								name: value.name === 'admin' ? 'Reserved name' : null
+							};
+						}
+					},
+					scope
+				);
+			});
+
+			instance = new Instance({ items: [{ qty: 1 }, { qty: -1 }], name: '' }, { worker });
+
+			const validation = instance.validateForm();
+
+			expect(instance.isValidating()).toEqual(true);
+			await validation;
+
+			expect(instance.errors).toEqual({
+				items: [undefined, { qty: 'Invalid quantity' }],
+				name: 'Name is required'
+			});
+
+			instance.value = { items: [{ qty: 1 }, { qty: 1 }], name: 'admin' };
+			await instance.validateForm();
+
+			expect(instance.errors).toEqual({ name: 'Reserved name' });
+			worker.terminate();
+		});
+
+		it('should discard late responses', async () => {
+			const worker = createManualWorker();
+
+			instance = new Instance({ name: '' }, { worker });
+
+			const first = instance.validateForm();
+			const second = instance.validateForm();
+
+			expect(worker.requests).toEqual([
+				{ seq: 1, type: 'validate', value: { name: '' } },
+				{ seq: 2, type: 'validate', value: { name: '' } }
+			]);
+
+			worker.respond({ errors: { name: 'Latest' }, seq: 2 });
+			worker.respond({ errors: { name: 'Stale' }, seq: 1 });
+			await Promise.all([first, second]);
+
+			expect(instance.errors).toEqual({ name: 'Latest' });
+			expect(instance.isValidating()).toEqual(false);
+		});
+
+		it('should wait for the worker before submitting', async () => {
+			const worker = createManualWorker();
+			const onInvalid = vi.fn();
+			const onSubmit = vi.fn();
+
+			instance = new Instance({ name: '' }, { worker });
+
+			const submission = instance.submit(onSubmit, { onInvalid });
+
+			expect(onInvalid).not.toHaveBeenCalled();
+
+			worker.respond({ errors: { name: 'Name is required' }, seq: 1 });
+			await submission;
+
+			expect(onSubmit).not.toHaveBeenCalled();
+			expect(onInvalid).toHaveBeenCalledWith(expect.objectContaining({ errors: { name: 'Name is required' } }));
+		});
+
+		it('should settle requests when the worker validation fails', async () => {
+			const onInvalid = vi.fn();
+			const onSubmit = vi.fn();
+			const worker = createLocalWorker(scope => {
+				exposeValidation(
+					{
+						validate: value => {
+							if (value.name === 'crash') {
+								throw new Error('Validation failed');
+							}
+
+							return { name: value.name ? null : 'Name is required' };
+						}
+					},
+					scope
+				);
+			});
+
+			instance = new Instance({ name: '' }, { worker });
+			await instance.validateForm();
+
+			expect(instance.errors).toEqual({ name: 'Name is required' });
+
+			instance.value = { name: 'crash' };
+			await instance.submit(onSubmit, { onInvalid });
+
+			// errors reported before are kept
+			expect(instance.errors).toEqual({ name: 'Name is required' });
+			expect(instance.isSubmitting).toEqual(false);
+			expect(instance.isValidating()).toEqual(false);
+			expect(onInvalid).toHaveBeenCalledOnce();
+
+			instance.value = { name: 'John' };
+			await instance.submit(onSubmit, { onInvalid });
+
+			expect(onSubmit).toHaveBeenCalledOnce();
+			worker.terminate();
+		});
+
+		it('should detach replaced workers', async () => {
+			const worker = createManualWorker();
+
+			instance = new Instance({ name: '' }, { worker });
+
+			const validation = instance.validateForm();
+
+			instance.configure({ worker: null });
+			await validation;
+
+			expect(worker.listeners.size).toEqual(0);
+			expect(instance.isValidating()).toEqual(false);
+			expect(instance.errors).toEqual({});
+		});
+	});
+
+	describe('setTouched / setVisited', () => {
+		it('should track touched paths', () => {
+			expect(instance.isTouched()).toEqual(false);
+
+			instance.setTouched(['user', 'name']);
+
+			expect(instance.touched).toEqual({ user: { name: true } });
+			expect(instance.isTouched()).toEqual(true);
+			expect(instance.isTouched(['user', 'name'])).toEqual(true);
+			expect(instance.isTouched(['user'])).toEqual(true);
+			expect(instance.isTouched(['user', 'email'])).toEqual(false);
+		});
+
+		it('should track visited paths', () => {
+			instance.setVisited(['name']);
+
+			expect(instance.visited).toEqual({ name: true });
+			expect(instance.isVisited(['name'])).toEqual(true);
+			expect(instance.isTouched(['name'])).toEqual(false);
+		});
+
+		it('should notify status listeners only when flags change', () => {
+			const listener = vi.fn();
+
+			instance.onStatusChange(listener);
+			instance.setTouched(['name']);
+			instance.setTouched(['name']);
+			instance.setVisited(['name']);
+
+			expect(listener).toHaveBeenCalledTimes(2);
+			expect(listener).toHaveBeenCalledWith(expect.objectContaining({ touched: { name: true } }), 'SET_TOUCHED');
+			expect(listener).toHaveBeenCalledWith(expect.objectContaining({ visited: { name: true } }), 'SET_VISITED');
+		});
+
+		it('should be reset by clear', () => {
+			instance.setTouched(['name']);
+			instance.setVisited(['name']);
+			instance.clear();
+
+			expect(instance.touched).toEqual({});
+			expect(instance.visited).toEqual({});
+		});
+	});
+
+	describe('list operations', () => {
+		beforeEach(() => {
+			instance = new Instance({ items: [{ name: 'a' }, { name: 'b' }, { name: 'c' }] });
+			instance.setError(['items', 0, 'name'], 'Error a', true);
+			instance.setError(['items', 2, 'name'], 'Error c', true);
+			instance.setTouched(['items', 0, 'name']);
+			instance.setVisited(['items', 2, 'name']);
+		});
+
+		it('should insert item and shift errors and flags', () => {
+			const triggerSpy = vi.spyOn(instance, 'triggerOnChange');
+
+			instance.listInsert(['items'], 1, { name: 'new' });
+
+			expect(instance.value).toEqual({ items: [{ name: 'a' }, { name: 'new' }, { name: 'b' }, { name: 'c' }] });
+			expect(instance.getError(['items', 3, 'name'])).toEqual('Error c');
+			expect(instance.requiredErrors.has(['items', 3, 'name'])).toEqual(true);
+			expect(instance.requiredErrors.has(['items', 2, 'name'])).toEqual(false);
+			expect(instance.isVisited(['items', 3, 'name'])).toEqual(true);
+			expect(triggerSpy).toHaveBeenCalledWith('LIST_INSERT', [['items']]);
+		});
+
+		it('should append item when index is out of range', () => {
+			instance.listInsert(['items'], -1, { name: 'd' });
+
+			expect(instance.get(['items', 3])).toEqual({ name: 'd' });
+		});
+
+		it('should move item along with errors and flags', () => {
+			instance.listMove(['items'], 0, 2);
+
+			expect(instance.value).toEqual({ items: [{ name: 'b' }, { name: 'c' }, { name: 'a' }] });
+			expect(instance.getError(['items', 2, 'name'])).toEqual('Error a');
+			expect(instance.getError(['items', 1, 'name'])).toEqual('Error c');
+			expect(instance.requiredErrors.has(['items', 2, 'name'])).toEqual(true);
+			expect(instance.requiredErrors.has(['items', 1, 'name'])).toEqual(true);
+			expect(instance.isTouched(['items', 2, 'name'])).toEqual(true);
+			expect(instance.isTouched(['items', 0, 'name'])).toEqual(false);
+			expect(instance.isVisited(['items', 1, 'name'])).toEqual(true);
+		});
+
+		it('should ignore out of range moves', () => {
+			const value = instance.value;
+
+			instance.listMove(['items'], 0, 3);
+
+			expect(instance.value).toBe(value);
+		});
+
+		it('should remove item along with its errors and flags', () => {
+			instance.listRemove(['items'], 0);
+
+			expect(instance.value).toEqual({ items: [{ name: 'b' }, { name: 'c' }] });
+			expect(instance.getError(['items', 0, 'name'])).toBeNull();
+			expect(instance.getError(['items', 1, 'name'])).toEqual('Error c');
+			expect(instance.requiredErrorsCount()).toEqual(1);
+			expect(instance.touched).toEqual({});
+			expect(instance.isVisited(['items', 1, 'name'])).toEqual(true);
+		});
+
+		it('should drop errors entirely when the last invalid item is removed', () => {
+			instance.listRemove(['items'], 0);
+			instance.listRemove(['items'], 1);
+
+			expect(instance.errors).toEqual({});
+			expect(instance.errorsCount()).toEqual(0);
+		});
+	});
+
+	describe('applyServerErrors', () => {
+		it('should apply flat errors', () => {
+			const errors = instance.applyServerErrors({
+				'items.0.name': 'Invalid name',
+				'items[1].name': ['Too short', 'Invalid name'],
+				email: 'Taken'
+			});
+
+			expect(errors).toEqual([
+				{ path: ['items', 0, 'name'], error: 'Invalid name' },
+				{ path: ['items', 1, 'name'], error: ['Too short', 'Invalid name'] },
+				{ path: ['email'], error: 'Taken' }
+			]);
+
+			expect(instance.errors).toEqual({
+				email: 'Taken',
+				items: [{ name: 'Invalid name' }, { name: ['Too short', 'Invalid name'] }]
+			});
+		});
+
+		it('should apply wrapped flat errors', () => {
+			instance.applyServerErrors({ errors: { name: 'Invalid name' } }, { format: 'flat' });
+
+			expect(instance.errors).toEqual({ name: 'Invalid name' });
+		});
+
+		it('should apply JSON:API errors', () => {
+			instance.applyServerErrors({
+				errors: [
+					{ detail: 'Invalid name', source: { pointer: '/data/attributes/items/0/name' } },
+					{ detail: 'Too short', source: { pointer: '/data/attributes/items/0/name' } },
+					{ source: { pointer: '/data/attributes/a~1b' }, title: 'Invalid key' },
+					{ detail: 'Not a field error', source: { parameter: 'include' } }
+				]
+			});
+
+			expect(instance.errors).toEqual({
+				'a/b': 'Invalid key',
+				items: [{ name: ['Invalid name', 'Too short'] }]
+			});
+		});
+
+		it('should apply problem details errors', () => {
+			instance.applyServerErrors({
+				errors: [{ detail: 'Invalid name', pointer: '#/items/0/name' }],
+				status: 422,
+				title: 'Validation failed'
+			});
+
+			expect(instance.errors).toEqual({ items: [{ name: 'Invalid name' }] });
+
+			instance.applyServerErrors(
+				{
+					'invalid-params': [{ name: 'email', reason: 'Taken' }],
+					title: 'Validation failed'
+				},
+				{ format: 'problem' }
+			);
+
+			expect(instance.errors).toEqual({ email: 'Taken' });
+		});
+
+		it('should not apply plain problem details as field errors', () => {
+			instance.applyServerErrors({
+				detail: 'The form could not be processed',
+				status: 500,
+				title: 'Internal Server Error',
+				type: 'about:blank'
+			});
+
+			expect(instance.errors).toEqual({});
+			expect(parseServerErrors({ title: 'Conflict', type: 'https://example.com/probs/conflict' })).toEqual([]);
+			expect(parseServerErrors({ title: 'Too long', type: 'Invalid type' })).toEqual([
+				{ error: 'Too long', path: ['title'] },
+				{ error: 'Invalid type', path: ['type'] }
+			]);
+		});
+
+		it('should apply errors maps of problem details as flat errors', () => {
+			instance.applyServerErrors({ errors: { email: ['Taken'] }, status: 422 });
+
+			expect(instance.errors).toEqual({ email: 'Taken' });
+
+			instance.applyServerErrors({
+				errors: { Email: ['Invalid email', 'Taken'], 'Items[0].Name': ['Required'] },
+				status: 400,
+				title: 'One or more validation errors occurred.',
+				traceId: '00-1',
+				type: 'https://tools.ietf.org/html/rfc9110#section-15.5.1'
+			});
+
+			expect(instance.errors).toEqual({ Email: ['Invalid email', 'Taken'], Items: [{ Name: 'Required' }] });
+		});
+
+		it('should apply errors with custom parsers', () => {
+			registerServerErrorParser('custom', response => {
+				return [{ path: response.field.split('/'), error: response.message }];
+			});
+
+			instance.applyServerErrors({ field: 'user/name', message: 'Invalid name' }, { format: 'custom' });
+
+			expect(instance.errors).toEqual({ user: { name: 'Invalid name' } });
+
+			instance.applyServerErrors({ message: 'Invalid email' }, { format: () => [{ path: ['email'], error: 'Invalid email' }] });
+
+			expect(instance.errors).toEqual({ email: 'Invalid email' });
+		});
+
+		it('should throw on unknown formats', () => {
+			expect(() => {
+				instance.applyServerErrors({}, { format: 'unknown' });
+			}).toThrow('Unknown server errors format "unknown".');
+		});
+
+		it('should clear server errors once the affected field is edited', () => {
+			instance.applyServerErrors({
+				'items.0.name': 'Invalid name',
+				email: 'Taken'
+			});
+
+			instance.set(['email'], instance.get(['email']));
+
+			expect(instance.errors).toEqual({
+				email: 'Taken',
+				items: [{ name: 'Invalid name' }]
+			});
+
+			instance.set(['email'], 'john@doe.com');
+
+			expect(instance.errors).toEqual({ items: [{ name: 'Invalid name' }] });
+
+			instance.set(['items'], []);
+
+			expect(instance.errors).toEqual({});
+		});
+
+		it('should not clear errors set by others meanwhile', () => {
+			instance.applyServerErrors({ email: 'Taken' });
+			instance.setError(['email'], 'Invalid email');
+			instance.set(['email'], 'john@doe.com');
+
+			expect(instance.errors).toEqual({ email: 'Invalid email' });
+		});
+	});
+
+	describe('reconcileErrors', () => {
+		it('should set reported errors and clear the ones no longer reported', () => {
+			instance.reconcileErrors('test', [
+				{ path: ['name'], error: 'Name error' },
+				{ path: ['email'], error: 'Email error' }
+			]);
+
+			expect(instance.errors).toEqual({ name: 'Name error', email: 'Email error' });
+			expect(instance.requiredErrorsCount()).toEqual(2);
+
+			instance.reconcileErrors('test', [{ path: ['email'], error: 'Email error' }]);
+
+			expect(instance.errors).toEqual({ email: 'Email error' });
+			expect(instance.requiredErrorsCount()).toEqual(1);
+		});
+
+		it('should report the source of current errors', () => {
+			instance.reconcileErrors('test', [
+				{ path: ['name'], error: 'Name error' },
+				{ path: [], error: 'Form error' }
+			]);
+			instance.setError(['email'], 'Email error');
+
+			expect(instance.getErrorSource(['name'])).toEqual('test');
+			expect(instance.getErrorSource([])).toEqual('test');
+			expect(instance.getErrorSource(['email'])).toBeNull();
+
+			instance.setError(['name'], 'Replaced');
+
+			expect(instance.getErrorSource(['name'])).toBeNull();
+		});
+
+		it('should keep root errors under the form level key', () => {
+			instance.setError(['name'], 'Name error');
+			instance.reconcileErrors('test', [{ path: [], error: 'Form error' }]);
+
+			expect(instance.errors).toEqual({ $form: 'Form error', name: 'Name error' });
+
+			instance.reconcileErrors('test', []);
+
+			expect(instance.errors).toEqual({ name: 'Name error' });
+		});
+
+		it('should not clear errors set by others meanwhile', () => {
+			instance.reconcileErrors('test', [{ path: ['name'], error: 'Name error' }]);
+			instance.setError(['name'], 'Item error', true);
+			instance.reconcileErrors('test', []);
+
+			expect(instance.errors).toEqual({ name: 'Item error' });
+		});
+
+		it('should not clobber errors set by others', () => {
+			instance.setError(['name'], 'Item error', true);
+			instance.reconcileErrors('test', [{ path: ['name'], error: 'Name error' }]);
+
+			expect(instance.errors).toEqual({ name: 'Item error' });
+
+			instance.unsetError(['name']);
+			instance.reconcileErrors('test', [{ path: ['name'], error: 'Name error' }]);
+
+			expect(instance.errors).toEqual({ name: 'Name error' });
+		});
+
+		it('should only touch errors within scope', () => {
+			instance.reconcileErrors('test', [
+				{ path: ['name'], error: 'Name error' },
+				{ path: ['email'], error: 'Email error' }
+			]);
+
+			instance.reconcileErrors('test', [], ['name']);
+
+			expect(instance.errors).toEqual({ email: 'Email error' });
+		});
+	});
+
+	describe('validateForm', () => {
+		const validate = (value: any) => {
+			return {
+				'dates.end': value.dates?.end < value.dates?.start ? 'End date must be after start date' : null,
+				passwordConfirmation: value.password !== value.passwordConfirmation ? 'Passwords do not match' : null
+			};
+		};
+
+		beforeEach(() => {
+			instance = new Instance({ dates: { end: 2, start: 1 }, password: 'a', passwordConfirmation: 'a' }, { validate });
+		});
+
+		it('should set returned errors and clear stale ones', () => {
+			instance.value.dates.end = 0;
+			instance.value.passwordConfirmation = 'b';
+			instance.validateForm();
+
+			expect(instance.errors).toEqual({
+				dates: { end: 'End date must be after start date' },
+				passwordConfirmation: 'Passwords do not match'
+			});
+			expect(instance.requiredErrorsCount()).toEqual(2);
+
+			instance.value.passwordConfirmation = 'a';
+			instance.validateForm();
+
+			expect(instance.errors).toEqual({ dates: { end: 'End date must be after start date' } });
+		});
+
+		it('should not clobber per-item errors', () => {
+			instance.setError(['passwordConfirmation'], 'Required Field.', true);
+			instance.value.passwordConfirmation = '';
+			instance.validateForm();
+
+			expect(instance.errors).toEqual({ passwordConfirmation: 'Required Field.' });
+
+			instance.value.passwordConfirmation = 'a';
+			instance.validateForm();
+
+			expect(instance.errors).toEqual({ passwordConfirmation: 'Required Field.' });
+		});
+
+		it('should run on changes', async () => {
+			instance.set(['dates', 'end'], 0);
+			await wait(20);
+
+			expect(instance.errors).toEqual({ dates: { end: 'End date must be after start date' } });
+
+			instance.set(['dates', 'end'], 3);
+			await wait(20);
+
+			expect(instance.errors).toEqual({});
+		});
+
+		it('should run on submit', () => {
+			const onInvalid = vi.fn();
+			const onSubmit = vi.fn();
+
+			instance.value.passwordConfirmation = 'b';
+			instance.submit(onSubmit, { onInvalid });
+
+			expect(onSubmit).not.toHaveBeenCalled();
+			expect(onInvalid).toHaveBeenCalledWith(expect.objectContaining({ errors: { passwordConfirmation: 'Passwords do not match' } }));
+		});
+
+		it('should apply async results and discard stale ones', async () => {
+			const resolvers: ((result: Instance.ValidateResult) => void)[] = [];
+
+			instance.configure({
+				validate: () => {
+					return new Promise(resolve => {
+						resolvers.push(resolve);
+					});
+				}
+			});
+
+			const first = instance.validateForm();
+			const second = instance.validateForm();
+
+			expect(instance.isValidating()).toEqual(true);
+
+			resolvers[1]({ password: 'Too weak' });
+			resolvers[0]({ password: 'Stale' });
+			await Promise.all([first, second]);
+
+			expect(instance.isValidating()).toEqual(false);
+			expect(instance.errors).toEqual({ password: 'Too weak' });
+		});
+	});
+
+	describe('validateSchema', () => {
+		const schema = createSchema(value => {
+			const issues: StandardSchemaV1.Issue[] = [];
+
+			if (!value.name) {
+				issues.push({ message: 'Name is required', path: ['name'] });
+			}
+
+			(value.items || []).forEach((item: any, index: number) => {
+				if (!item.name) {
+					issues.push({ message: 'Item name is required', path: [{ key: 'items' }, { key: index }, 'name'] });
+					issues.push({ message: 'Item name is empty', path: ['items', index, 'name'] });
+				}
+			});
+
+			return issues;
+		});
+
+		it('should do nothing without schema', () => {
+			expect(instance.validateSchema()).toBeUndefined();
+			expect(instance.errors).toEqual({});
+		});
+
+		it('should map issues to errors, including nested list paths', () => {
+			instance = new Instance({ items: [{ name: 'a' }, { name: '' }] }, { schema });
+			instance.validateSchema();
+
+			expect(instance.errors).toEqual({
+				name: 'Name is required',
+				items: [undefined, { name: ['Item name is required', 'Item name is empty'] }]
+			});
+			expect(instance.requiredErrors.has(['items', 1, 'name'])).toEqual(true);
+		});
+
+		it('should clear errors once value becomes valid', () => {
+			instance = new Instance({ items: [{ name: '' }] }, { schema });
+			instance.validateSchema();
+			instance.set(['name'], 'John');
+			instance.set(['items', 0, 'name'], 'Item');
+			instance.validateSchema();
+
+			expect(instance.errors).toEqual({});
+			expect(instance.requiredErrorsCount()).toEqual(0);
+		});
+
+		it('should keep issues without path as form level errors', () => {
+			const refinement = createSchema(value => {
+				return value.password === value.confirmation ? [] : [{ message: 'Passwords do not match' }];
+			});
+
+			instance = new Instance({ confirmation: 'b', password: 'a' }, { schema: refinement });
+			instance.setError(['a'], 'Invalid');
+			instance.submit(vi.fn());
+
+			expect(instance.errors).toEqual({ $form: 'Passwords do not match', a: 'Invalid' });
+			expect(instance.getError([])).toEqual('Passwords do not match');
+			expect(instance.errorsCount()).toEqual(2);
+
+			// item scoped validations leave form level errors alone
+			instance.validateSchema(['password']);
+			expect(instance.getError([])).toEqual('Passwords do not match');
+
+			instance.set(['confirmation'], 'a');
+			instance.validateSchema();
+
+			expect(instance.errors).toEqual({ a: 'Invalid' });
+		});
+
+		it('should apply only issues within path', () => {
+			instance = new Instance({ items: [{ name: '' }] }, { schema });
+			instance.validateSchema(['name']);
+
+			expect(instance.errors).toEqual({ name: 'Name is required' });
+		});
+
+		it('should use schema set by configure', () => {
+			instance.configure({ schema });
+			instance.validateSchema();
+
+			expect(instance.errors).toEqual({ name: 'Name is required' });
+		});
+
+		it('should handle async schemas and flag validation as pending', async () => {
+			instance = new Instance({}, { schema: createSchema(() => [{ message: 'Invalid', path: ['name'] }], { async: true }) });
+
+			const validation = instance.validateSchema();
+
+			expect(instance.isValidating()).toEqual(true);
+
+			await validation;
+
+			expect(instance.isValidating()).toEqual(false);
+			expect(instance.errors).toEqual({ name: 'Invalid' });
+		});
+	});
+
+	describe('setValidating', () => {
+		it('should flag path as validating until validation settles', async () => {
+			let resolve: () => void = () => {};
+			const validation = new Promise<void>(resolve_ => {
+				resolve = resolve_;
+			});
+
+			instance.setValidating(['name'], validation);
+
+			expect(instance.isValidating()).toEqual(true);
+			expect(instance.isValidating(['name'])).toEqual(true);
+			expect(instance.isValidating(['email'])).toEqual(false);
+			expect(instance.getPayload().validating).toEqual(true);
+
+			resolve();
+			await wait(0);
+
+			expect(instance.isValidating()).toEqual(false);
+			expect(instance.isValidating(['name'])).toEqual(false);
+		});
+
+		it('should clear validating flag when validation rejects', async () => {
+			instance.setValidating(['name'], Promise.reject(new Error('aborted')));
+
+			await wait(0);
+
+			expect(instance.isValidating(['name'])).toEqual(false);
+		});
+
+		it('should keep the newest validation for the same path', async () => {
+			let resolveFirst: () => void = () => {};
+			const first = new Promise<void>(resolve => {
+				resolveFirst = resolve;
+			});
+
+			instance.setValidating(['name'], first);
+			instance.setValidating(['name'], new Promise(() => {}));
+
+			resolveFirst();
+			await wait(0);
+
+			expect(instance.isValidating(['name'])).toEqual(true);
+		});
+
+		it('should expose the validating fields in the payload', async () => {
+			instance.setValidating(['items', 1, 'name'], wait(10));
+			instance.setValidating(['email'], Promise.resolve());
+			instance.setValidating([], Promise.resolve());
+
+			expect(instance.getPayload().validatingFields).toEqual({ email: true, items: [undefined, { name: true }] });
+
+			await wait(0);
+
+			expect(instance.getPayload().validatingFields).toEqual({ items: [undefined, { name: true }] });
+			expect(instance.getPayload().validating).toEqual(true);
+
+			await wait(20);
+
+			expect(instance.getPayload().validatingFields).toEqual({});
+		});
+
+		it('should notify status listeners', async () => {
+			const listener = vi.fn();
+
+			instance.onStatusChange(listener);
+			instance.setValidating(['name'], Promise.resolve());
+
+			expect(listener).toHaveBeenCalledWith(expect.objectContaining({ validating: true }), 'SET_VALIDATING');
+
+			await wait(0);
+
+			expect(listener).toHaveBeenCalledWith(expect.objectContaining({ validating: false }), 'UNSET_VALIDATING');
+		});
+
+		it('should throw error if status listener is not a function', () => {
+			expect(() => {
+				instance.onStatusChange('not a function' as any);
+			}).toThrow('listener must be a function.');
+		});
+	});
+
+	describe('waitValidations', () => {
+		it('should resolve immediately when nothing is validating', async () => {
+			await expect(instance.waitValidations()).resolves.toBeUndefined();
+		});
+
+		it('should wait for validations started while waiting', async () => {
+			const done = vi.fn();
+
+			instance.setValidating(
+				['name'],
+				wait(5).then(() => {
+					instance.setValidating(['email'], wait(5));
+				})
+			);
+
+			await instance.waitValidations().then(done);
+
+			expect(done).toHaveBeenCalled();
+			expect(instance.isValidating()).toEqual(false);
+		});
+	});
+
+	describe('submit', () => {
+		it('should call onSubmit with the payload and store the result', () => {
+			const onSubmit = vi.fn(() => 'saved');
+
+			instance.submit(onSubmit);
+
+			expect(onSubmit).toHaveBeenCalledWith(
+				expect.objectContaining({
+					isSubmitting: true,
+					submitCount: 1
+				})
+			);
+			expect(instance.isSubmitting).toEqual(false);
+			expect(instance.lastSubmit).toBeGreaterThan(0);
+			expect(instance.lastSubmitResult).toEqual('saved');
+		});
+
+		it('should flush registered items before submitting', () => {
+			const item = { id: 'item', reportFormImmediate: vi.fn() };
+
+			instance.registerItem(item);
+			instance.submit(vi.fn());
+
+			expect(item.reportFormImmediate).toHaveBeenCalled();
+		});
+
+		it('should track async submissions and block concurrent ones', async () => {
+			const onSubmit = vi.fn(async () => {
+				await wait(10);
+
+				return { id: 1 };
+			});
+
+			const submission = instance.submit(onSubmit);
+
+			expect(instance.isSubmitting).toEqual(true);
+			expect(instance.getPayload().isSubmitting).toEqual(true);
+			expect(instance.submit(onSubmit)).toBeUndefined();
+
+			await submission;
+
+			expect(onSubmit).toHaveBeenCalledTimes(1);
+			expect(instance.isSubmitting).toEqual(false);
+			expect(instance.submitCount).toEqual(1);
+			expect(instance.lastSubmitResult).toEqual({ id: 1 });
+		});
+
+		it('should store async submit errors', async () => {
+			const error = new Error('Network error');
+
+			await expect(instance.submit(() => Promise.reject(error))).rejects.toThrow('Network error');
+
+			expect(instance.isSubmitting).toEqual(false);
+			expect(instance.submitError).toBe(error);
+			expect(instance.lastSubmitResult).toBeNull();
+		});
+
+		it('should store sync submit errors and rethrow them', () => {
+			expect(() => {
+				instance.submit(() => {
+					throw new Error('Sync error');
+				});
+			}).toThrow('Sync error');
+
+			expect(instance.isSubmitting).toEqual(false);
+			expect(instance.submitError).toEqual(new Error('Sync error'));
+		});
+
+		it('should reset submitError on next submit', () => {
+			instance.submitError = new Error('Previous error');
+			instance.submit(vi.fn());
+
+			expect(instance.submitError).toBeNull();
+			expect(instance.submitCount).toEqual(1);
+		});
+
+		it('should call onInvalid instead of onSubmit when errors exist', () => {
+			const onInvalid = vi.fn();
+			const onSubmit = vi.fn();
+
+			instance.setError(['name'], 'Required field', true);
+			instance.submit(onSubmit, { onInvalid });
+
+			expect(onSubmit).not.toHaveBeenCalled();
+			expect(onInvalid).toHaveBeenCalledWith(expect.objectContaining({ errorsCount: 1, requiredErrorsCount: 1 }));
+			expect(instance.isSubmitting).toEqual(false);
+			expect(instance.submitCount).toEqual(1);
+		});
+
+		it('should call onSubmit when valid even with onInvalid', () => {
+			const onInvalid = vi.fn();
+			const onSubmit = vi.fn();
+
+			instance.submit(onSubmit, { onInvalid });
+
+			expect(onSubmit).toHaveBeenCalled();
+			expect(onInvalid).not.toHaveBeenCalled();
+		});
+
+		it('should wait for pending validations', async () => {
+			const onSubmit = vi.fn();
+
+			instance.setValidating(['name'], wait(10));
+
+			const submission = instance.submit(onSubmit);
+
+			expect(onSubmit).not.toHaveBeenCalled();
+
+			await submission;
+
+			expect(onSubmit).toHaveBeenCalledWith(expect.objectContaining({ validating: false }));
+		});
+
+		it('should notify status listeners', async () => {
+			const listener = vi.fn();
+
+			instance.onStatusChange(listener);
+			await instance.submit(() => Promise.resolve());
+
+			expect(listener).toHaveBeenCalledWith(expect.objectContaining({ isSubmitting: true }), 'SUBMIT_START');
+			expect(listener).toHaveBeenCalledWith(expect.objectContaining({ isSubmitting: false }), 'SUBMIT_END');
+		});
+
+		it('should add a merge patch to the payload', () => {
+			const onSubmit = vi.fn();
+
+			instance = new Instance({ age: 30, name: 'John', tags: ['a'] }, { submitFormat: 'mergePatch' });
+			instance.set(['name'], 'Jane');
+			instance.set(['age'], undefined);
+			instance.listInsert(['tags'], 1, 'b');
+			instance.submit(onSubmit);
+
+			expect(onSubmit).toHaveBeenCalledWith(
+				expect.objectContaining({
+					mergePatch: { age: null, name: 'Jane', tags: ['a', 'b'] },
+					value: { age: undefined, name: 'Jane', tags: ['a', 'b'] }
+				})
+			);
+
+			instance.configure({ submitFormat: 'value' });
+			instance.submit(onSubmit);
+
+			expect(onSubmit.mock.calls[1][0]).not.toHaveProperty('mergePatch');
+		});
+
+		it('should clean values before computing the merge patch', () => {
+			const onSubmit = vi.fn();
+
+			instance = new Instance({ name: 'John', user: { city: 'NY' } }, { submitFormat: { clean: true, type: 'mergePatch' } });
+			instance.set(['user', 'city'], null);
+			instance.set(['email'], null);
+			instance.submit(onSubmit);
+
+			expect(onSubmit.mock.calls[0][0].mergePatch).toEqual({ user: null });
+			expect(instance.mergePatch()).toEqual({ email: null, user: { city: null } });
+		});
+	});
+
+	describe('requestImmediateValue', () => {
+		it('should call reportFormImmediate on all registered items', () => {
+			const item1 = { id: 'item1', reportFormImmediate: vi.fn() };
+			const item2 = { id: 'item2', reportFormImmediate: vi.fn() };
+
+			instance.registerItem(item1);
+			instance.registerItem(item2);
+
+			instance.requestImmediateValue();
+
+			expect(item1.reportFormImmediate).toHaveBeenCalled();
+			expect(item2.reportFormImmediate).toHaveBeenCalled();
+		});
+	});
+
+	describe('getInvalidItems', () => {
+		it('should return registered items with errors at their path', () => {
+			const item1 = { getPath: () => ['name'], id: 'item1', reportFormImmediate: vi.fn() };
+			const item2 = { getPath: () => ['email'], id: 'item2', reportFormImmediate: vi.fn() };
+			const item3 = { id: 'item3', reportFormImmediate: vi.fn() };
+
+			instance.registerItem(item1);
+			instance.registerItem(item2);
+			instance.registerItem(item3);
+			instance.setError(['email'], 'Invalid email');
+
+			expect(instance.getInvalidItems()).toEqual([item2]);
 		});
 	});
 
@@ -1,22 +1,41 @@
 import cloneDeep from 'lodash/cloneDeep';
-import debounce from 'lodash/debounce';
 import every from 'lodash/every';
+import flatMap from 'lodash/flatMap';
+import filter from 'lodash/filter';
+import forEach from 'lodash/forEach';
 import get from 'lodash/get';
 import isArray from 'lodash/isArray';
 import isEmpty from 'lodash/isEmpty';
+import isEqual from 'lodash/isEqual';
 import isFunction from 'lodash/isFunction';
 import isNil from 'lodash/isNil';
+import isNull from 'lodash/isNull';
 import isObject from 'lodash/isObject';
 import isPlainObject from 'lodash/isPlainObject';
 import isString from 'lodash/isString';
 import isUndefined from 'lodash/isUndefined';
 import keys from 'lodash/keys';
+import last from 'lodash/last';
 import map from 'lodash/map';
+import noop from 'lodash/noop';
 import now from 'lodash/now';
-import set from 'lodash/set';
+import omitBy from 'lodash/omitBy';
+import reduce from 'lodash/reduce';
+import reject from 'lodash/reject';
 import size from 'lodash/size';
+import some from 'lodash/some';
+import union from 'lodash/union';
+import uniqBy from 'lodash/uniqBy';
 import values from 'lodash/values';
 
+import { Messages, translate } from '@/form/messages';
+import { issuesToErrors, StandardSchemaV1 } from '@/form/schema';
+import { createPatch, JsonPatch, resolvePointer } from '@/form/json-patch';
+import { createMergePatch } from '@/form/merge-patch';
+import { fromDotted, setIn, unsetIn } from '@/form/path';
+import { parseServerErrors, ServerErrors } from '@/form/server-errors';
+import { ValidationWorker } from '@/form/worker';
+
 const deepClean = (obj: any, isRoot: boolean = true): any => {
 	// Special case for empty objects/arrays at root level
 	if (isRoot && ((isArray(obj) && size(obj) === 0) || (isPlainObject(obj) && size(obj) === 0))) {
@@ -141,45 +160,167 @@ const deepClean = (obj: any, isRoot: boolean = true): any => {
 };
 
 namespace Instance {
-	export type Error = string | null;
+	export type Error = string | ErrorObject | null;
+	export type ErrorFormatter = (error: ErrorObject, path: Path) => string | Nil;
+	export type ErrorObject = {
+		code: string;
+		message?: string;
+		params?: { [key: string]: unknown };
+		severity?: 'error' | 'warning';
+	};
 	export type Errors = {
 		[key: string]: Errors | Error | Error[];
 	};
 
 	export type Action =
+		| 'BATCH'
 		| 'CLEAR'
 		| 'CLEAR_ERRORS'
 		| 'INIT'
+		| 'LIST_INSERT'
+		| 'LIST_MOVE'
+		| 'LIST_REMOVE'
 		| 'PATCH'
+		| 'REINITIALIZE'
 		| 'REPLACE'
+		| 'RESET'
+		| 'RESET_FIELD'
 		| 'HISTORY_REDO'
 		| 'HISTORY_REPLACE'
 		| 'HISTORY_UNDO'
 		| 'SET_ERROR'
+		| 'SET_TOUCHED'
+		| 'SET_VALIDATING'
+		| 'SET_VISITED'
+		| 'SET_WARNING'
 		| 'SET'
-		| 'UNSET_ERROR';
+		| 'SUBMIT_END'
+		| 'SUBMIT_START'
+		| 'UNSET_ERROR'
+		| 'UNSET_VALIDATING'
+		| 'UNSET_WARNING';
 	export type Payload<T extends object = Value, V = Nil> = {
 		changed: boolean;
 		changesCount: number;
+		dirty: boolean;
 		errors: Instance.Errors;
 		errorsCount: number;
 		instance: Instance<T>;
+		isSubmitting: boolean;
 		lastChange: number;
 		lastSubmit: number;
+		lastSubmitResult: unknown;
 		requiredErrorsCount: number;
+		submitCount: number;
+		submitError: unknown;
+		touched: Instance.Flags;
+		validating: boolean;
+		// fields with a pending validation of their own, form level validations flag none of them
+		validatingFields: Instance.Flags;
 		value: V extends Nil ? T : V | null;
+		visited: Instance.Flags;
+		warnings: Instance.Errors;
+		warningsCount: number;
+	};
+
+	export type Flags = {
+		[key: string]: Flags | Flags[] | boolean;
 	};
 
+	export type IndexMapper = (index: number) => number | null;
 	export type Nil = null | undefined;
+	export type Options = {
+		fallbackLocale?: string | string[];
+		formatError?: ErrorFormatter | null;
+		locale?: string;
+		messages?: Messages.Catalogs | null;
+		notify?: NotifyStrategy;
+		notifyWait?: number;
+		schema?: StandardSchemaV1 | null;
+		submitFormat?: SubmitFormat;
+		validate?: Validator | null;
+		worker?: ValidationWorker.Port | null;
+	};
+
+	// when change notifications are delivered, coalescing the changes made meanwhile
+	export type NotifyStrategy = 'debounce' | 'microtask' | 'raf' | 'sync';
 	export type Path = (string | number)[];
+
+	// "beforeSet" may return a changed operation or false to cancel it, "setup" may return a cleanup, called when the plugin is removed
+	export type Plugin<T extends object = Value> = {
+		afterSet?: (operation: PluginOperation, instance: Instance<T>) => void;
+		beforeSet?: (operation: PluginOperation, instance: Instance<T>) => PluginOperation | boolean | void;
+		beforeSubmit?: (payload: SubmitPayload<T>, instance: Instance<T>) => boolean | void;
+		onError?: (error: unknown, operation: PluginOperation | null, instance: Instance<T>) => void;
+		setup?: (instance: Instance<T>) => (() => void) | void;
+	};
+
+	// "path" is [] for "PATCH", "REPLACE", "RESET" and history actions, list actions point at the item, "value" is the target
+	// index for "LIST_MOVE" and undefined for "LIST_REMOVE", "UNSET" and "UNSET_ERROR"
+	export type PluginOperation = {
+		action:
+			| 'HISTORY_REDO'
+			| 'HISTORY_REPLACE'
+			| 'HISTORY_UNDO'
+			| 'LIST_INSERT'
+			| 'LIST_MOVE'
+			| 'LIST_REMOVE'
+			| 'PATCH'
+			| 'REPLACE'
+			| 'RESET'
+			| 'RESET_FIELD'
+			| 'SET'
+			| 'SET_ERROR'
+			| 'UNSET'
+			| 'UNSET_ERROR';
+		path: Path;
+		value: Value;
+	};
+
+	export type ReconcileError = {
+		error: Error | Error[];
+		path: Path;
+	};
+
 	export type RegisteredItem = {
+		getPath?: () => Path;
 		id: string;
+		// called when a change touches the item path or one of its dependencies
+		notify?: () => void;
 		reportFormImmediate: () => void;
 	};
 
+	// a value change at one path, with the values before and after it ("[]" stands for the whole value)
+	export type Change = {
+		action: Action;
+		path: Path;
+		prevValue: Value;
+		value: Value;
+	};
+
+	// details are provided for value changes and "BATCH" actions, listing the coalesced actions, paths and value changes in order
+	export type ChangeDetails = {
+		actions: Action[];
+		changes: Change[];
+		label?: string;
+		paths: Path[];
+	};
+
 	export type Listener<T extends object = Value> = {
-		(payload: Payload<T>, action: Instance.Action): void;
+		(payload: Payload<T>, action: Instance.Action, details?: ChangeDetails): void;
+	};
+	// "mergePatch" adds the changes since the initial value to the submit payload as an RFC 7396 merge patch, "clean" runs "deepClean" on both values first
+	export type SubmitFormat = 'mergePatch' | 'value' | { clean?: boolean; type: 'mergePatch' | 'value' };
+	export type SubmitHandler<T extends object = Value> = (payload: SubmitPayload<T>) => unknown;
+	export type SubmitOptions<T extends object = Value> = {
+		onInvalid?: SubmitHandler<T>;
 	};
+	export type SubmitPayload<T extends object = Value> = Payload<T> & { mergePatch?: Value };
+	export type ShowErrors = 'always' | 'dirty' | 'submitted' | 'touched';
+	export type ValidateOn = 'blur' | 'change' | 'submit' | 'touched';
+	// errors keyed by dotted paths, e.g. { 'dates.end': 'End date must be after start date' }
+	export type ValidateResult = { [path: string]: Error | Error[] } | Nil;
+	export type Validator<T extends object = Value> = (value: T) => ValidateResult | PromiseLike<ValidateResult>;
 	export type Value = any;
 }
 
@@ -216,29 +357,207 @@ class RequiredErrors extends Set<string> {
 
 		return super.has(key);
 	}
+
+	reindex(path: Instance.Path, mapIndex: Instance.IndexMapper): void {
+		const prefix = `${path.join('.')}.`;
+		const keys = filter([...this], requiredError => {
+			return requiredError.startsWith(prefix);
+		});
+
+		forEach(keys, key => {
+			super.delete(key);
+		});
+
+		forEach(keys, key => {
+			const [index, ...rest] = key.slice(prefix.length).split('.');
+			const nextIndex = mapIndex(Number(index));
+
+			if (!isNull(nextIndex)) {
+				super.add(prefix + [nextIndex, ...rest].join('.'));
+			}
+		});
+	}
 }
 
+const errorActions = new Set<Instance.Action>(['CLEAR_ERRORS', 'SET_ERROR', 'UNSET_ERROR']);
+const statusActions = new Set<Instance.Action>([
+	'SET_TOUCHED',
+	'SET_VALIDATING',
+	'SET_VISITED',
+	'SUBMIT_END',
+	'SUBMIT_START',
+	'UNSET_VALIDATING'
+]);
+
+const warningActions = new Set<Instance.Action>(['SET_WARNING', 'UNSET_WARNING']);
+// actions bringing the form back to a baseline, form validation waits for the next change
+const resetActions = new Set<Instance.Action>(['CLEAR', 'INIT', 'REINITIALIZE', 'RESET']);
+
+// errors without a field path (e.g. schema refinements of the whole value) are kept under a form level key,
+// replacing the whole errors tree otherwise
+const FORM_ERROR_KEY = '$form';
+
+const toErrorPath = (path: Instance.Path): Instance.Path => {
+	return size(path) > 0 ? path : [FORM_ERROR_KEY];
+};
+
+const isValueAction = (action: Instance.Action): boolean => {
+	return !errorActions.has(action) && !statusActions.has(action) && !warningActions.has(action);
+};
+
+const isErrorObject = (value: unknown): value is Instance.ErrorObject => {
+	return isPlainObject(value) && isString((value as Instance.ErrorObject).code);
+};
+
+const isPromiseLike = (value: unknown): value is PromiseLike<unknown> => {
+	return isObject(value) && isFunction((value as PromiseLike<unknown>).then);
+};
+
+const isPathWithin = (path: Instance.Path, scope: Instance.Path): boolean => {
+	return every(scope, (key, index) => {
+		return String(path[index]) === String(key);
+	});
+};
+
+// whether one path contains the other, the root path contains every path
+const isPathRelated = (a: Instance.Path, b: Instance.Path): boolean => {
+	return isPathWithin(a, b) || isPathWithin(b, a);
+};
+
+const reindexPath = (path: Instance.Path, listPath: Instance.Path, mapIndex: Instance.IndexMapper): Instance.Path | null => {
+	if (size(path) <= size(listPath) || !isPathWithin(path, listPath)) {
+		return path;
+	}
+
+	const index = mapIndex(Number(path[size(listPath)]));
+
+	if (isNull(index)) {
+		return null;
+	}
+
+	return [...listPath, index, ...path.slice(size(listPath) + 1)];
+};
+
+// reindex the list at path for a tree of errors or flags, dropping the subtree of removed indexes
+const reindexTree = <V extends object>(tree: V, path: Instance.Path, mapIndex: Instance.IndexMapper): V => {
+	const list = get(tree, path);
+
+	if (!isArray(list)) {
+		return tree;
+	}
+
+	const nextList: any[] = [];
+
+	forEach(list, (item, index) => {
+		const nextIndex = mapIndex(index);
+
+		if (!isNull(nextIndex) && !isNil(item)) {
+			nextList[nextIndex] = item;
+		}
+	});
+
+	return some(nextList, item => !isNil(item)) ? setIn(tree, path, nextList) : unsetIn(tree, path, true);
+};
+
+// list the leaf paths where a and b differ
+const diffPaths = (a: Instance.Value, b: Instance.Value, path: Instance.Path = []): Instance.Path[] => {
+	if (isEqual(a, b)) {
+		return [];
+	}
+
+	if ((isPlainObject(a) && isPlainObject(b)) || (isArray(a) && isArray(b))) {
+		return flatMap(union(keys(a), keys(b)), key => {
+			return diffPaths(a[key], b[key], [...path, isArray(a) ? Number(key) : key]);
+		});
+	}
+
+	return [path];
+};
+
+const move = <V extends Instance.Value[]>(array: V, moveIndex: number, toIndex: number): V => {
+	const size = array.length;
+
+	if (moveIndex < 0 || moveIndex >= size || toIndex < 0 || toIndex >= size) {
+		return array;
+	}
+
+	const item = array[moveIndex];
+	const diff = moveIndex - toIndex;
+
+	if (diff > 0) {
+		// move left
+		return [...array.slice(0, toIndex), item, ...array.slice(toIndex, moveIndex), ...array.slice(moveIndex + 1, size)] as V;
+	}
+
+	if (diff < 0) {
+		// move right
+		return [...array.slice(0, moveIndex), ...array.slice(moveIndex + 1, toIndex + 1), item, ...array.slice(toIndex + 1, size)] as V;
+	}
+
+	return array;
+};
+
 class Instance<T extends object = Instance.Value> {
 	private static index = 0;
 	private cache: {
-		error: { [key: string]: Instance.Error };
-		get: { [key: string]: Instance.Value };
+		error: { [key: string]: { path: Instance.Path; value: Instance.Error } };
+		get: { [key: string]: { path: Instance.Path; value: Instance.Value } };
 	};
 
+	private dependencies: Map<string, Instance.Path[]>;
+	// whole form dirty state, kept while value and initialValue references are unchanged
+	private dirtyState: { dirty: boolean; initialValue: T; value: T } | null;
 	private items: Set<Instance.RegisteredItem>;
 	private onChangeListeners: Set<Instance.Listener<T>>;
 	private onErrorChangeListeners: Set<Instance.Listener<T>>;
+	private onStatusChangeListeners: Set<Instance.Listener<T>>;
+	private onWarningChangeListeners: Set<Instance.Listener<T>>;
+	private formValidations: number;
+	private options: Instance.Options;
+	// value as of the last journaled change, the previous value of the next one
+	private journalValue: T;
+	private pendingChange: {
+		action: Instance.Action;
+		actions: Instance.Action[];
+		changes: Instance.Change[];
+		label?: string;
+		paths: Instance.Path[] | undefined;
+	} | null;
+	// registered plugins and their cleanups
+	private plugins: Map<Instance.Plugin<T>, (() => void) | null>;
+	private scheduledFlush: (() => void) | null;
+	private schemaValidations: Map<string, number>;
+	private sourceErrors: Map<string, Map<string, Instance.ReconcileError>>;
+	private subscribers: Set<() => void>;
+	// changes made within a transaction, notified once when the outermost one commits
+	private transactionState: {
+		actions: Instance.Action[];
+		changes: Instance.Change[];
+		label?: string;
+		operations: Instance.PluginOperation[];
+		paths: Instance.Path[] | undefined;
+	} | null;
+	private validations: Map<string, Promise<void>>;
+	private workerRequest: { reject: (error: Error) => void; resolve: (result: Instance.ValidateResult) => void; seq: number } | null;
 
 	public changed: boolean;
 	public changesCount: number;
 	public errors: Instance.Errors;
 	public id: string;
+	public initialValue: T;
+	public isSubmitting: boolean;
 	public lastChange: number;
 	public lastSubmit: number;
+	public lastSubmitResult: unknown;
 	public requiredErrors: RequiredErrors;
+	public submitCount: number;
+	public submitError: unknown;
+	public touched: Instance.Flags;
 	public value: T;
+	public visited: Instance.Flags;
+	public warnings: Instance.Errors;
 
-	constructor(value?: T) {
+	constructor(value?: T, options: Instance.Options = {}) {
 		this.cache = {
 			error: {},
 			get: {}
@@ -246,243 +565,1456 @@ class Instance<T extends object = Instance.Value> {
 
 		this.errors = {};
 		this.changed = false;
+		this.dependencies = new Map();
+		this.dirtyState = null;
+		this.formValidations = 0;
 		this.id = `form-${Instance.index++}`;
+		this.initialValue = cloneDeep(value || ({} as T));
 		this.items = new Set();
 		this.changesCount = 0;
+		this.isSubmitting = false;
 		this.lastChange = 0;
 		this.lastSubmit = 0;
+		this.lastSubmitResult = null;
 		this.onChangeListeners = new Set();
 		this.onErrorChangeListeners = new Set();
+		this.onStatusChangeListeners = new Set();
+		this.onWarningChangeListeners = new Set();
+		this.options = {};
+		this.pendingChange = null;
+		this.plugins = new Map();
 		this.requiredErrors = new RequiredErrors();
+		this.scheduledFlush = null;
+		this.schemaValidations = new Map();
+		this.sourceErrors = new Map();
+		this.subscribers = new Set();
+		this.submitCount = 0;
+		this.submitError = null;
+		this.touched = {};
+		this.transactionState = null;
+		this.validations = new Map();
 		this.value = value || ({} as T);
+		this.journalValue = this.value;
+		this.visited = {};
+		this.warnings = {};
+		this.workerRequest = null;
+		this.configure(options);
 	}
 
-	private cacheFlush(): void {
-		this.cache = {
-			error: {},
-			get: {}
+	// list items are inserted, moved and removed as list operations, keeping errors and flags attached to them
+	private applyOperation(operation: JsonPatch.Operation): void {
+		const target = resolvePointer(this.value, operation.path);
+		const invalid = () => {
+			return new Error(`Invalid "${operation.op}" operation at "${operation.path}".`);
 		};
-	}
 
-	private cacheGet(type: 'error' | 'get', path: Instance.Path): Instance.Error | Instance.Value {
-		return this.cache[type][path.join('.')];
-	}
-
-	private cacheSet(type: 'error' | 'get', path: Instance.Path, value: Instance.Error | Instance.Value): void {
-		this.cache[type][path.join('.')] = value;
-	}
+		switch (operation.op) {
+			case 'add':
+				if (target.list) {
+					if (target.index < 0 || target.index > size(target.parent)) {
+						throw invalid();
+					}
 
-	clear(): void {
-		this.errors = {};
-		this.requiredErrors.clear();
-		this.value = {} as T;
-		this.triggerOnChange('CLEAR');
-	}
+					this.listInsert(target.list, target.index, operation.value);
+				} else if (size(target.path) > 0 && !isObject(target.parent)) {
+					throw invalid();
+				} else {
+					this.set(target.path, operation.value);
+				}
 
-	clearErrors(): void {
-		this.errors = {};
-		this.requiredErrors.clear();
-		this.triggerOnChange('CLEAR_ERRORS');
-	}
+				return;
+			case 'copy':
+			case 'move': {
+				const source = resolvePointer(this.value, operation.from);
+
+				// a value can't be moved into one of its own children
+				if (
+					!source.exists ||
+					(operation.op === 'move' && size(target.path) > size(source.path) && isPathWithin(target.path, source.path))
+				) {
+					throw invalid();
+				}
 
-	errorsCount(): number {
-		return size(this.errors);
-	}
+				if (operation.op === 'move' && source.list && target.list && isEqual(source.list, target.list)) {
+					// indexes apply to the list without the moved item, where "-" stands for its last position
+					const to = last(target.path) === '-' ? size(target.parent) - 1 : target.index;
 
-	get(path?: Instance.Nil, defaultValue?: Instance.Nil): T;
-	get<V extends Instance.Value = Instance.Value>(path?: Instance.Path, defaultValue?: Instance.Value): V;
-	get<V extends Instance.Value = Instance.Value>(path: Instance.Path | Instance.Nil, defaultValue?: Instance.Value | Instance.Nil): V | T {
-		if (isNil(path)) {
-			return this.value as T;
-		}
+					if (to < 0 || to >= size(target.parent)) {
+						throw invalid();
+					}
 
-		const cacheValue = this.cacheGet('get', path);
+					this.listMove(source.list, source.index, to);
 
-		if (!isUndefined(cacheValue)) {
-			return cacheValue;
-		}
+					return;
+				}
 
-		const value = get(this.value, path, defaultValue);
+				const value = size(source.path) > 0 ? get(this.value, source.path) : this.value;
 
-		this.cacheSet('get', path, value);
+				if (operation.op === 'move') {
+					this.applyOperation({ op: 'remove', path: operation.from });
+				}
 
-		return value;
-	}
+				this.applyOperation({ op: 'add', path: operation.path, value: operation.op === 'copy' ? cloneDeep(value) : value });
 
-	getError(path?: Instance.Path): Instance.Errors | Instance.Error | Instance.Error[] {
-		if (!path) {
-			return this.errors;
-		}
+				return;
+			}
+			case 'remove':
+				if (!target.exists || size(target.path) === 0) {
+					throw invalid();
+				}
 
-		const cacheValue = this.cacheGet('error', path);
+				if (target.list) {
+					this.listRemove(target.list, target.index);
+				} else {
+					const unset = this.runBeforeSet({ action: 'UNSET', path: target.path, value: undefined });
 
-		if (!isUndefined(cacheValue)) {
-			return cacheValue;
-		}
+					if (unset) {
+						this.clearSourceErrors('server', unset.path);
+						this.value = unsetIn(this.value, unset.path);
+						this.triggerOnChange('SET', [unset.path]);
+						this.runAfterSet(unset);
+					}
+				}
 
-		const value = get(this.errors, path, null);
+				return;
+			case 'replace':
+				if (!target.exists) {
+					throw invalid();
+				}
 
-		this.cacheSet('error', path, value);
+				this.set(target.path, operation.value);
 
-		return value;
+				return;
+			case 'test':
+				if (!target.exists || !isEqual(size(target.path) > 0 ? get(this.value, target.path) : this.value, operation.value)) {
+					throw new Error(`Failed "test" operation at "${operation.path}".`);
+				}
+		}
 	}
 
-	getPayload(): Instance.Payload<T> {
-		return {
-			changed: this.changed,
-			changesCount: this.changesCount,
-			errors: this.errors,
-			errorsCount: this.errorsCount(),
-			instance: this,
-			lastChange: this.lastChange,
-			lastSubmit: this.lastSubmit,
-			requiredErrorsCount: this.requiredErrorsCount(),
-			value: this.value
+	// drops cached entries related to the changed paths, or everything when paths are not provided
+	private cacheFlush(paths?: Instance.Path[]): void {
+		const flush = <C extends { [key: string]: { path: Instance.Path } }>(cache: C): C => {
+			if (!paths) {
+				return {} as C;
+			}
+
+			return omitBy(cache, entry => {
+				return some(paths, path => {
+					return isPathRelated(entry.path, path);
+				});
+			}) as C;
+		};
+
+		this.cache = {
+			error: flush(this.cache.error),
+			get: flush(this.cache.get)
 		};
 	}
 
-	historyAction(action: 'REDO' | 'UNDO' | 'REPLACE', value: T): void {
-		this.value = value;
+	private cacheGet(type: 'error' | 'get', path: Instance.Path): Instance.Error | Instance.Value {
+		return this.cache[type][path.join('.')]?.value;
+	}
 
-		switch (action) {
-			case 'REDO':
-				this.triggerOnChange('HISTORY_REDO');
-				break;
-			case 'REPLACE':
-				this.triggerOnChange('HISTORY_REPLACE');
-				break;
-			case 'UNDO':
-				this.triggerOnChange('HISTORY_UNDO');
-				break;
-		}
+	private cacheSet(type: 'error' | 'get', path: Instance.Path, value: Instance.Error | Instance.Value): void {
+		this.cache[type][path.join('.')] = { path, value };
 	}
 
-	init(value: T): boolean {
-		if (size(this.value) > 0) {
-			return false;
+	// drops errors owned by source overlapping path, keeping the ones replaced meanwhile by someone else
+	private clearSourceErrors(source: string, path: Instance.Path): void {
+		const sourceErrors = this.sourceErrors.get(source);
+
+		if (!sourceErrors) {
+			return;
 		}
 
-		this.value = value;
-		this.triggerOnChange('INIT');
+		sourceErrors.forEach((sourceError, key) => {
+			if (!isPathRelated(sourceError.path, path)) {
+				return;
+			}
 
-		return true;
+			if (isEqual(this.getError(sourceError.path), sourceError.error)) {
+				this.unsetError(sourceError.path);
+			}
+
+			sourceErrors.delete(key);
+		});
 	}
 
-	onChange(listener: Instance.Listener<T>): () => void {
-		if (!isFunction(listener)) {
-			throw new Error('listener must be a function.');
-		}
+	// notifies the channels of the given actions, then the items related to paths and the subscribers
+	private dispatch(
+		actions: Instance.Action[],
+		paths: Instance.Path[] | undefined,
+		changes: Instance.Change[],
+		details?: Instance.ChangeDetails
+	): void {
+		const action = details ? 'BATCH' : actions[0];
+		const has = (set: Set<Instance.Action>) => {
+			return some(actions, action => {
+				return set.has(action);
+			});
+		};
 
-		this.onChangeListeners.add(listener);
+		if (has(errorActions)) {
+			this.emit(this.onErrorChangeListeners, action, details);
+		}
 
-		return () => {
-			this.onChangeListeners.delete(listener);
-		};
-	}
+		if (has(statusActions)) {
+			this.emit(this.onStatusChangeListeners, action, details);
+		}
 
-	onErrorChange(listener: Instance.Listener<T>): () => void {
-		if (!isFunction(listener)) {
-			throw new Error('listener must be a function.');
+		if (has(warningActions)) {
+			this.emit(this.onWarningChangeListeners, action, details);
 		}
 
-		this.onErrorChangeListeners.add(listener);
+		if (some(actions, isValueAction)) {
+			this.queueChange(action, details ? details.actions : actions, paths, changes, details?.label);
 
-		return () => {
-			this.onErrorChangeListeners.delete(listener);
-		};
-	}
+			// transactions are reported right away, as a single change
+			if (details) {
+				this.flush();
+			}
+		}
 
-	patch(value: Partial<T>): void {
-		this.value = {
-			...this.value,
-			...value
-		};
-		this.triggerOnChange('PATCH');
-	}
+		this.items.forEach(item => {
+			if (isFunction(item.notify) && this.isItemAffected(item, paths)) {
+				item.notify();
+			}
+		});
 
-	registerItem(item: Instance.RegisteredItem): void {
-		this.items.add(item);
+		this.subscribers.forEach(listener => {
+			listener();
+		});
 	}
 
-	replace(value: T): void {
-		this.value = value;
-		this.triggerOnChange('REPLACE');
-	}
+	// the payload is only built when someone listens, it is O(form size)
+	private emit(listeners: Set<Instance.Listener<T>>, action: Instance.Action, details?: Instance.ChangeDetails): void {
+		if (listeners.size === 0) {
+			return;
+		}
 
-	requestImmediateValue(): void {
-		this.items.forEach(item => {
-			if (isFunction(item.reportFormImmediate)) {
-				item.reportFormImmediate();
+		const payload = this.getPayload();
+
+		listeners.forEach(listener => {
+			if (details) {
+				listener(payload, action, details);
+			} else {
+				listener(payload, action);
 			}
 		});
 	}
 
-	requiredErrorsCount(): number {
-		return this.requiredErrors.size;
+	private isItemAffected(item: Instance.RegisteredItem, paths?: Instance.Path[]): boolean {
+		if (!paths) {
+			return true;
+		}
+
+		const path = item.getPath?.() || [];
+		const deps = this.dependencies.get(path.join('.')) || [];
+
+		return some(paths, changedPath => {
+			return (
+				isPathRelated(path, changedPath) ||
+				some(deps, dep => {
+					return isPathRelated(dep, changedPath);
+				})
+			);
+		});
 	}
 
-	set(path: Instance.Path, value: Instance.Value): T {
-		this.value = set(cloneDeep(this.value), path, value);
-		this.triggerOnChange('SET');
+	// records the value change at each path, values are kept by reference as updates never mutate them
+	private journal(action: Instance.Action, paths?: Instance.Path[]): Instance.Change[] {
+		const prevValue = this.journalValue;
 
-		return this.value;
+		this.journalValue = this.value;
+
+		return map(paths || [[]], path => {
+			return {
+				action,
+				path,
+				prevValue: size(path) > 0 ? get(prevValue, path) : prevValue,
+				value: size(path) > 0 ? get(this.value, path) : this.value
+			};
+		});
 	}
 
-	setError(path: Instance.Path, value: Instance.Error | Instance.Error[], requiredError: boolean = false): Instance.Errors {
-		if (isString(value) && isEmpty(value)) {
-			return this.errors;
-		}
+	// late responses, answering a request superseded meanwhile, are discarded. failed validations keep the errors
+	// reported before, as failed "validate" functions do
+	private onWorkerMessage = (event: { data: any }) => {
+		const response = (event.data || {}) as ValidationWorker.Response;
 
-		this.errors = set(cloneDeep(this.errors), path, value);
+		if (this.workerRequest && this.workerRequest.seq === response.seq) {
+			if ('error' in response) {
+				this.workerRequest.reject(new Error(response.error));
+			} else {
+				this.workerRequest.resolve(response.errors);
+			}
 
-		if (requiredError) {
-			this.requiredErrors.add(path);
+			this.workerRequest = null;
 		}
+	};
 
-		this.triggerOnChange('SET_ERROR');
+	// coalesces value changes until the next flush, scheduled according to the "notify" option
+	private queueChange(
+		action: Instance.Action,
+		actions: Instance.Action[],
+		paths: Instance.Path[] | undefined,
+		changes: Instance.Change[],
+		label?: string
+	): void {
+		const pending = this.pendingChange;
+
+		this.pendingChange = {
+			action,
+			actions: [...(pending?.actions || []), ...actions],
+			changes: [...(pending?.changes || []), ...changes],
+			label: label ?? pending?.label,
+			paths: !pending ? paths : pending.paths && paths ? [...pending.paths, ...paths] : undefined
+		};
 
-		return this.errors;
+		this.scheduleFlush();
 	}
 
-	triggerOnChange(action: Instance.Action) {
-		this.lastChange = now();
-		this.cacheFlush();
+	// keeps errors and flags attached to their list items when indexes change
+	private reindex(path: Instance.Path, mapIndex: Instance.IndexMapper): void {
+		const errors = reindexTree(this.errors, path, mapIndex);
 
-		if (action === 'CLEAR_ERRORS' || action === 'SET_ERROR' || action === 'UNSET_ERROR') {
-			const payload = this.getPayload();
+		this.requiredErrors.reindex(path, mapIndex);
+		this.sourceErrors.forEach((sourceErrors, source) => {
+			const nextSourceErrors = new Map<string, Instance.ReconcileError>();
 
-			this.onErrorChangeListeners.forEach(listener => {
-				listener(payload, action);
+			sourceErrors.forEach(sourceError => {
+				const nextPath = reindexPath(sourceError.path, path, mapIndex);
+
+				if (nextPath) {
+					nextSourceErrors.set(nextPath.join('.'), { ...sourceError, path: nextPath });
+				}
 			});
-		} else {
-			this.triggerOnChangeDebounced({ action });
-		}
-	}
 
-	triggerOnChangeDebounced = debounce((args: { action: Instance.Action }) => {
-		const { action } = args;
+			this.sourceErrors.set(source, nextSourceErrors);
+		});
 
-		this.changesCount += 1;
-		this.changed = this.lastChange > this.lastSubmit;
+		const warnings = reindexTree(this.warnings, path, mapIndex);
 
-		const payload = this.getPayload();
-		this.onChangeListeners.forEach(listener => {
-			listener(payload, action);
-		});
-	}, 10);
+		this.touched = reindexTree(this.touched, path, mapIndex);
+		this.visited = reindexTree(this.visited, path, mapIndex);
 
-	unregisterItem(item: Instance.RegisteredItem): void {
-		this.items.delete(item);
+		if (errors !== this.errors) {
+			this.errors = errors;
+			this.triggerOnChange('SET_ERROR', [path]);
+		}
+
+		if (warnings !== this.warnings) {
+			this.warnings = warnings;
+			this.triggerOnChange('SET_WARNING', [path]);
+		}
+	}
+
+	private reportError(error: unknown, operation: Instance.PluginOperation | null): void {
+		this.plugins.forEach((_, plugin) => {
+			plugin.onError?.(error, operation, this);
+		});
+	}
+
+	private resetState(value: T): void {
+		this.errors = {};
+		this.requiredErrors.clear();
+		this.sourceErrors.clear();
+		this.touched = {};
+		this.value = value;
+		this.visited = {};
+		this.warnings = {};
+	}
+
+	// operations made within a transaction reach "afterSet" once it commits, rolled back ones never do
+	private runAfterSet(operation: Instance.PluginOperation): void {
+		if (this.transactionState) {
+			this.transactionState.operations.push(operation);
+
+			return;
+		}
+
+		try {
+			this.plugins.forEach((_, plugin) => {
+				plugin.afterSet?.(operation, this);
+			});
+		} catch (err) {
+			this.reportError(err, operation);
+			throw err;
+		}
+	}
+
+	// each hook receives the operation returned by the previous one, null means the operation was cancelled
+	private runBeforeSet(operation: Instance.PluginOperation): Instance.PluginOperation | null {
+		try {
+			for (const plugin of this.plugins.keys()) {
+				const result = plugin.beforeSet?.(operation, this);
+
+				if (result === false) {
+					return null;
+				}
+
+				if (isObject(result)) {
+					operation = result;
+				}
+			}
+		} catch (err) {
+			this.reportError(err, operation);
+			throw err;
+		}
+
+		return operation;
+	}
+
+	private runBeforeSubmit(): boolean {
+		if (this.plugins.size === 0) {
+			return true;
+		}
+
+		const payload = this.submitPayload();
+
+		try {
+			return every([...this.plugins.keys()], plugin => {
+				return plugin.beforeSubmit?.(payload, this) !== false;
+			});
+		} catch (err) {
+			this.reportError(err, null);
+			throw err;
+		}
+	}
+
+	private scheduleFlush(): void {
+		const { notify = 'debounce', notifyWait = 10 } = this.options;
+
+		if (notify === 'sync') {
+			this.flush();
+			return;
+		}
+
+		// debounced notifications wait for changes to settle, the others are delivered once per tick or frame
+		if (notify === 'debounce') {
+			this.scheduledFlush?.();
+		} else if (this.scheduledFlush) {
+			return;
+		}
+
+		const flush = () => {
+			this.scheduledFlush = null;
+			this.flush();
+		};
+
+		if (notify === 'microtask') {
+			let cancelled = false;
+
+			queueMicrotask(() => {
+				if (!cancelled) {
+					flush();
+				}
+			});
+
+			this.scheduledFlush = () => {
+				cancelled = true;
+			};
+		} else if (notify === 'raf' && isFunction(globalThis.requestAnimationFrame)) {
+			const id = requestAnimationFrame(flush);
+
+			this.scheduledFlush = () => {
+				cancelAnimationFrame(id);
+			};
+		} else {
+			// "raf" falls back to a frame long timeout where animation frames are not available
+			const id = setTimeout(flush, notify === 'raf' ? 16 : notifyWait);
+
+			this.scheduledFlush = () => {
+				clearTimeout(id);
+			};
+		}
+	}
+
+	private submitPayload(): Instance.SubmitPayload<T> {
+		const format = isString(this.options.submitFormat) ? { type: this.options.submitFormat } : this.options.submitFormat;
+		const payload = this.getPayload();
+
+		if (format?.type === 'mergePatch') {
+			return { ...payload, mergePatch: this.mergePatch(this.initialValue, format.clean) };
+		}
+
+		return payload;
+	}
+
+	// applies RFC 6902 operations atomically as a single "BATCH" change, nothing is applied when one of them fails
+	applyPatch(operations: JsonPatch.Operation[]): T {
+		this.transaction('applyPatch', () => {
+			forEach(operations, operation => {
+				this.applyOperation(operation);
+			});
+		});
+
+		return this.value;
+	}
+
+	// maps a server validation response onto errors, replacing the ones applied previously
+	applyServerErrors(response: unknown, options: { format?: ServerErrors.Format } = {}): Instance.ReconcileError[] {
+		const errors = parseServerErrors(response, options.format);
+
+		this.reconcileErrors('server', errors);
+
+		return errors;
+	}
+
+	// applies the changes made by fn as a single "BATCH" change, see "transaction"
+	batch<R>(fn: () => R): R {
+		return this.transaction(undefined, fn);
+	}
+
+	clear(): void {
+		this.resetState({} as T);
+		this.triggerOnChange('CLEAR');
+	}
+
+	clearErrors(): void {
+		this.errors = {};
+		this.requiredErrors.clear();
+		this.sourceErrors.clear();
+		this.triggerOnChange('CLEAR_ERRORS');
+	}
+
+	configure(options: Instance.Options): void {
+		const prevWorker = this.options.worker;
+
+		this.options = {
+			...this.options,
+			...options
+		};
+
+		if (this.options.worker !== prevWorker) {
+			prevWorker?.removeEventListener('message', this.onWorkerMessage);
+			this.options.worker?.addEventListener('message', this.onWorkerMessage);
+
+			// the previous worker will never answer, its pending request is discarded
+			if (this.workerRequest) {
+				this.formValidations += 1;
+				this.workerRequest.resolve(null);
+				this.workerRequest = null;
+			}
+		}
+	}
+
+	// built-in errors are kept as objects when a message catalog is configured, so they can be translated in place.
+	// codes without a built-in message are kept as objects too, rendered by "formatError" or as their code
+	createError(code: string, params?: Instance.ErrorObject['params']): Instance.Error {
+		const error = params ? { code, params } : { code };
+
+		if (!this.options.messages) {
+			return translate(code, params) ?? error;
+		}
+
+		return error;
+	}
+
+	// walks the dependency graph from path, returning the first cycle found back to it
+	dependencyCycle(path: Instance.Path): Instance.Path[] | null {
+		const key = path.join('.');
+		const visited = new Set<string>();
+		const walk = (trail: Instance.Path[]): Instance.Path[] | null => {
+			const deps = this.dependencies.get(trail[trail.length - 1].join('.')) || [];
+
+			for (const dep of deps) {
+				const depKey = dep.join('.');
+
+				if (depKey === key) {
+					return [...trail, dep];
+				}
+
+				if (!visited.has(depKey)) {
+					visited.add(depKey);
+
+					const cycle = walk([...trail, dep]);
+
+					if (cycle) {
+						return cycle;
+					}
+				}
+			}
+
+			return null;
+		};
+
+		return walk([path]);
+	}
+
+	// RFC 6902 operations turning baseline (the initial value by default) into the current value
+	diff(baseline: Instance.Value = this.initialValue): JsonPatch.Operation[] {
+		return createPatch(baseline, this.value);
+	}
+
+	dirtyPaths(): Instance.Path[] {
+		return diffPaths(this.initialValue, this.value);
+	}
+
+	errorsCount(): number {
+		return size(this.errors);
+	}
+
+	// delivers the pending change notification right away, reporting the last action (and every coalesced one in details)
+	flush(): void {
+		const pending = this.pendingChange;
+
+		this.scheduledFlush?.();
+		this.scheduledFlush = null;
+
+		if (!pending) {
+			return;
+		}
+
+		const { action, actions, changes, label } = pending;
+		const paths = uniqBy(pending.paths || [[]], path => {
+			return path.join('.');
+		});
+
+		this.pendingChange = null;
+		this.changesCount += 1;
+		this.changed = this.lastChange > this.lastSubmit;
+
+		if (
+			!every(actions, action => {
+				return resetActions.has(action);
+			})
+		) {
+			this.validateForm();
+		}
+
+		this.emit(this.onChangeListeners, action, { actions, changes, label, paths });
+
+		// "changed" and "changesCount" are only updated here
+		this.subscribers.forEach(listener => {
+			listener();
+		});
+	}
+
+	// renders errors as messages, error objects go through the "formatError" option, the message catalog, their own message,
+	// built-in messages and finally their code
+	formatError(error: Instance.Errors | Instance.Error | Instance.Error[], path: Instance.Path = []): string | string[] | null {
+		if (isArray(error)) {
+			return filter(
+				map(error, error => {
+					return this.formatError(error, path) as string | null;
+				}),
+				isString
+			);
+		}
+
+		if (isString(error)) {
+			return error;
+		}
+
+		if (isErrorObject(error)) {
+			const { formatError } = this.options;
+
+			return (
+				(formatError && formatError(error, path)) ||
+				translate(error.code, error.params, { ...this.options, defaults: false }) ||
+				error.message ||
+				translate(error.code, error.params, this.options) ||
+				error.code
+			);
+		}
+
+		return null;
+	}
+
+	get(path?: Instance.Nil, defaultValue?: Instance.Nil): T;
+	get<V extends Instance.Value = Instance.Value>(path?: Instance.Path, defaultValue?: Instance.Value): V;
+	get<V extends Instance.Value = Instance.Value>(path: Instance.Path | Instance.Nil, defaultValue?: Instance.Value | Instance.Nil): V | T {
+		if (isNil(path)) {
+			return this.value as T;
+		}
+
+		const cacheValue = this.cacheGet('get', path);
+
+		if (!isUndefined(cacheValue)) {
+			return cacheValue;
+		}
+
+		const value = get(this.value, path, defaultValue);
+
+		this.cacheSet('get', path, value);
+
+		return value;
+	}
+
+	getError(path?: Instance.Path): Instance.Errors | Instance.Error | Instance.Error[] {
+		if (!path) {
+			return this.errors;
+		}
+
+		path = toErrorPath(path);
+
+		const cacheValue = this.cacheGet('error', path);
+
+		if (!isUndefined(cacheValue)) {
+			return cacheValue;
+		}
+
+		const value = get(this.errors, path, null);
+
+		this.cacheSet('error', path, value);
+
+		return value;
+	}
+
+	// the source (e.g. "validate", "schema" or "server") that reported the current error at path, null for errors set directly
+	getErrorSource(path: Instance.Path): string | null {
+		const error = this.getError(path);
+		const key = toErrorPath(path).join('.');
+
+		for (const [source, errors] of this.sourceErrors) {
+			if (errors.has(key) && isEqual(errors.get(key)!.error, error)) {
+				return source;
+			}
+		}
+
+		return null;
+	}
+
+	// registered items holding an error at their path, in registration order
+	getInvalidItems(): Instance.RegisteredItem[] {
+		return filter([...this.items], item => {
+			return isFunction(item.getPath) && !!this.getError(item.getPath());
+		});
+	}
+
+	getPayload(): Instance.Payload<T> {
+		return {
+			changed: this.changed,
+			changesCount: this.changesCount,
+			dirty: this.isDirty(),
+			errors: this.errors,
+			errorsCount: this.errorsCount(),
+			instance: this,
+			isSubmitting: this.isSubmitting,
+			lastChange: this.lastChange,
+			lastSubmit: this.lastSubmit,
+			lastSubmitResult: this.lastSubmitResult,
+			requiredErrorsCount: this.requiredErrorsCount(),
+			submitCount: this.submitCount,
+			submitError: this.submitError,
+			touched: this.touched,
+			validating: this.isValidating(),
+			validatingFields: reduce(
+				[...this.validations.keys()],
+				(reduction, key) => {
+					return key ? setIn(reduction, fromDotted(key), true) : reduction;
+				},
+				{} as Instance.Flags
+			),
+			value: this.value,
+			visited: this.visited,
+			warnings: this.warnings,
+			warningsCount: this.warningsCount()
+		};
+	}
+
+	getWarning(path?: Instance.Path): Instance.Errors | Instance.Error | Instance.Error[] {
+		if (!path) {
+			return this.warnings;
+		}
+
+		return get(this.warnings, path, null);
+	}
+
+	historyAction(action: 'REDO' | 'UNDO' | 'REPLACE', value: T): void {
+		const operation = this.runBeforeSet({ action: `HISTORY_${action}`, path: [], value });
+
+		if (!operation) {
+			return;
+		}
+
+		this.value = operation.value;
+
+		switch (action) {
+			case 'REDO':
+				this.triggerOnChange('HISTORY_REDO');
+				break;
+			case 'REPLACE':
+				this.triggerOnChange('HISTORY_REPLACE');
+				break;
+			case 'UNDO':
+				this.triggerOnChange('HISTORY_UNDO');
+				break;
+		}
+
+		this.runAfterSet(operation);
+	}
+
+	init(value: T): boolean {
+		if (size(this.value) > 0) {
+			return false;
+		}
+
+		this.initialValue = cloneDeep(value);
+		this.value = value;
+		this.triggerOnChange('INIT');
+
+		return true;
+	}
+
+	isDirty(path?: Instance.Path): boolean {
+		if (!path) {
+			const state = this.dirtyState;
+
+			if (!state || state.initialValue !== this.initialValue || state.value !== this.value) {
+				this.dirtyState = {
+					dirty: !isEqual(this.initialValue, this.value),
+					initialValue: this.initialValue,
+					value: this.value
+				};
+			}
+
+			return this.dirtyState!.dirty;
+		}
+
+		return !isEqual(get(this.initialValue, path), get(this.value, path));
+	}
+
+	isTouched(path?: Instance.Path): boolean {
+		if (!path) {
+			return !isEmpty(this.touched);
+		}
+
+		return !!get(this.touched, path);
+	}
+
+	isValidating(path?: Instance.Path): boolean {
+		if (!path) {
+			return this.validations.size > 0;
+		}
+
+		return this.validations.has(path.join('.'));
+	}
+
+	isVisited(path?: Instance.Path): boolean {
+		if (!path) {
+			return !isEmpty(this.visited);
+		}
+
+		return !!get(this.visited, path);
+	}
+
+	listInsert(path: Instance.Path, index: number, value: Instance.Value): T {
+		const list = this.get(path, []) as Instance.Value[];
+
+		if (index < 0 || index > size(list)) {
+			index = size(list);
+		}
+
+		// list operations can be cancelled, their paths can't be changed
+		const operation = this.runBeforeSet({ action: 'LIST_INSERT', path: [...path, index], value });
+
+		if (!operation) {
+			return this.value;
+		}
+
+		this.reindex(path, index_ => {
+			return index_ >= index ? index_ + 1 : index_;
+		});
+
+		this.value = setIn(this.value, path, [...list.slice(0, index), operation.value, ...list.slice(index)]);
+		this.triggerOnChange('LIST_INSERT', [path]);
+		this.runAfterSet(operation);
+
+		return this.value;
+	}
+
+	listMove(path: Instance.Path, from: number, to: number): T {
+		const list = this.get(path, []) as Instance.Value[];
+
+		if (from === to || from < 0 || from >= size(list) || to < 0 || to >= size(list)) {
+			return this.value;
+		}
+
+		const operation = this.runBeforeSet({ action: 'LIST_MOVE', path: [...path, from], value: to });
+
+		if (!operation) {
+			return this.value;
+		}
+
+		this.reindex(path, index => {
+			if (index === from) {
+				return to;
+			}
+
+			if (from < to && index > from && index <= to) {
+				return index - 1;
+			}
+
+			if (to < from && index >= to && index < from) {
+				return index + 1;
+			}
+
+			return index;
+		});
+
+		this.value = setIn(this.value, path, move(list, from, to));
+		this.triggerOnChange('LIST_MOVE', [path]);
+		this.runAfterSet(operation);
+
+		return this.value;
+	}
+
+	listRemove(path: Instance.Path, index: number): T {
+		const list = this.get(path, []) as Instance.Value[];
+
+		if (index < 0 || index >= size(list)) {
+			return this.value;
+		}
+
+		const operation = this.runBeforeSet({ action: 'LIST_REMOVE', path: [...path, index], value: undefined });
+
+		if (!operation) {
+			return this.value;
+		}
+
+		this.reindex(path, index_ => {
+			if (index_ === index) {
+				return null;
+			}
+
+			return index_ > index ? index_ - 1 : index_;
+		});
+
+		this.value = setIn(
+			this.value,
+			path,
+			reject(list, (_, index_) => {
+				return index === index_;
+			})
+		);
+		this.triggerOnChange('LIST_REMOVE', [path]);
+		this.runAfterSet(operation);
+
+		return this.value;
+	}
+
+	// RFC 7396 merge patch turning baseline (the initial value by default) into the current value, "clean" runs "deepClean" on both values first
+	mergePatch(baseline: Instance.Value = this.initialValue, clean: boolean = false): Instance.Value {
+		if (clean) {
+			return createMergePatch(deepClean(cloneDeep(baseline)), deepClean(cloneDeep(this.value)));
+		}
+
+		return createMergePatch(baseline, this.value);
+	}
+
+	onChange(listener: Instance.Listener<T>): () => void {
+		if (!isFunction(listener)) {
+			throw new Error('listener must be a function.');
+		}
+
+		this.onChangeListeners.add(listener);
+
+		return () => {
+			this.onChangeListeners.delete(listener);
+		};
+	}
+
+	onErrorChange(listener: Instance.Listener<T>): () => void {
+		if (!isFunction(listener)) {
+			throw new Error('listener must be a function.');
+		}
+
+		this.onErrorChangeListeners.add(listener);
+
+		return () => {
+			this.onErrorChangeListeners.delete(listener);
+		};
+	}
+
+	// status listeners are notified synchronously about non-value state, like pending validations
+	onStatusChange(listener: Instance.Listener<T>): () => void {
+		if (!isFunction(listener)) {
+			throw new Error('listener must be a function.');
+		}
+
+		this.onStatusChangeListeners.add(listener);
+
+		return () => {
+			this.onStatusChangeListeners.delete(listener);
+		};
+	}
+
+	onWarningChange(listener: Instance.Listener<T>): () => void {
+		if (!isFunction(listener)) {
+			throw new Error('listener must be a function.');
+		}
+
+		this.onWarningChangeListeners.add(listener);
+
+		return () => {
+			this.onWarningChangeListeners.delete(listener);
+		};
+	}
+
+	patch(value: Partial<T>): void {
+		const operation = this.runBeforeSet({ action: 'PATCH', path: [], value });
+
+		if (!operation) {
+			return;
+		}
+
+		this.value = {
+			...this.value,
+			...operation.value
+		};
+		this.triggerOnChange(
+			'PATCH',
+			map(keys(operation.value), key => {
+				return [key];
+			})
+		);
+		this.runAfterSet(operation);
+	}
+
+	// sets errors owned by source and clears the ones it previously set but no longer reports, within scope when provided.
+	// errors set or replaced by someone else (e.g. a Form.Item) are left untouched.
+	reconcileErrors(source: string, errors: Instance.ReconcileError[], scope?: Instance.Path): void {
+		const prevErrors = this.sourceErrors.get(source) || new Map<string, Instance.ReconcileError>();
+		const nextErrors = new Map<string, Instance.ReconcileError>();
+
+		forEach(errors, error => {
+			const path = toErrorPath(error.path);
+
+			if (!scope || isPathWithin(path, scope)) {
+				nextErrors.set(path.join('.'), { ...error, path });
+			}
+		});
+
+		prevErrors.forEach((prevError, key) => {
+			if (scope && !isPathWithin(prevError.path, scope)) {
+				nextErrors.set(key, prevError);
+			} else if (!nextErrors.has(key) && isEqual(this.getError(prevError.path), prevError.error)) {
+				this.unsetError(prevError.path);
+			}
+		});
+
+		nextErrors.forEach(({ error, path }, key) => {
+			const currentError = this.getError(path);
+			const prevError = prevErrors.get(key);
+			// errors owned by others (e.g. a Form.Item) are never clobbered
+			const owned = !currentError || (!!prevError && isEqual(currentError, prevError.error));
+
+			if (owned && !isEqual(currentError, error)) {
+				this.setError(path, error, true);
+			}
+		});
+
+		this.sourceErrors.set(source, nextErrors);
+	}
+
+	// tracks the paths whose changes revalidate path, reporting cycles
+	registerDependencies(path: Instance.Path, deps: Instance.Path[]): () => void {
+		const key = path.join('.');
+
+		this.dependencies.set(key, deps);
+
+		const cycle = this.dependencyCycle(path);
+
+		if (cycle) {
+			console.warn(
+				`Form: dependency cycle detected: ${map(cycle, path => {
+					return path.join('.');
+				}).join(' -> ')}`
+			);
+		}
+
+		return () => {
+			if (this.dependencies.get(key) === deps) {
+				this.dependencies.delete(key);
+			}
+		};
+	}
+
+	registerItem(item: Instance.RegisteredItem): void {
+		this.items.add(item);
+	}
+
+	// replaces both value and baseline, starting over as a pristine form
+	reinitialize(value: T): void {
+		this.initialValue = cloneDeep(value);
+		this.resetState(value);
+		this.triggerOnChange('REINITIALIZE');
+	}
+
+	replace(value: T): void {
+		const operation = this.runBeforeSet({ action: 'REPLACE', path: [], value });
+
+		if (!operation) {
+			return;
+		}
+
+		const prevValue = this.value;
+
+		value = operation.value;
+		this.value = value;
+		// top level entries kept by reference are untouched
+		this.triggerOnChange(
+			'REPLACE',
+			isPlainObject(prevValue) && isPlainObject(value)
+				? map(
+						filter(union(keys(prevValue), keys(value)), key => {
+							return prevValue[key as keyof T] !== value[key as keyof T];
+						}),
+						key => {
+							return [key];
+						}
+					)
+				: undefined
+		);
+		this.runAfterSet(operation);
+	}
+
+	requestImmediateValue(): void {
+		this.items.forEach(item => {
+			if (isFunction(item.reportFormImmediate)) {
+				item.reportFormImmediate();
+			}
+		});
+	}
+
+	requiredErrorsCount(): number {
+		return this.requiredErrors.size;
+	}
+
+	reset(): void {
+		const operation = this.runBeforeSet({ action: 'RESET', path: [], value: cloneDeep(this.initialValue) });
+
+		if (!operation) {
+			return;
+		}
+
+		this.resetState(operation.value);
+		this.triggerOnChange('RESET');
+		this.runAfterSet(operation);
+	}
+
+	resetField(path: Instance.Path): T {
+		const operation = this.runBeforeSet({ action: 'RESET_FIELD', path, value: cloneDeep(get(this.initialValue, path)) });
+
+		if (!operation) {
+			return this.value;
+		}
+
+		path = operation.path;
+		this.value = isUndefined(operation.value) ? unsetIn(this.value, path) : setIn(this.value, path, operation.value);
+		this.unsetError(path);
+		this.touched = unsetIn(this.touched, path, true);
+		this.visited = unsetIn(this.visited, path, true);
+		this.warnings = unsetIn(this.warnings, path, true);
+		this.triggerOnChange('RESET_FIELD', [path]);
+		this.runAfterSet(operation);
+
+		return this.value;
+	}
+
+	set(path: Instance.Path, value: Instance.Value): T {
+		const operation = this.runBeforeSet({ action: 'SET', path, value });
+
+		if (!operation) {
+			return this.value;
+		}
+
+		// server errors are stale once the affected field is edited
+		if (!isEqual(get(this.value, operation.path), operation.value)) {
+			this.clearSourceErrors('server', operation.path);
+		}
+
+		this.value = setIn(this.value, operation.path, operation.value);
+		this.triggerOnChange('SET', [operation.path]);
+		this.runAfterSet(operation);
+
+		return this.value;
+	}
+
+	setError(path: Instance.Path, value: Instance.Error | Instance.Error[], requiredError: boolean = false): Instance.Errors {
+		const operation = this.runBeforeSet({ action: 'SET_ERROR', path: toErrorPath(path), value });
+
+		if (!operation || (isString(operation.value) && isEmpty(operation.value))) {
+			return this.errors;
+		}
+
+		this.errors = setIn(this.errors, operation.path, operation.value);
+
+		if (requiredError) {
+			this.requiredErrors.add(operation.path);
+		}
+
+		this.triggerOnChange('SET_ERROR', [operation.path]);
+		this.runAfterSet(operation);
+
+		return this.errors;
+	}
+
+	setTouched(path: Instance.Path): void {
+		if (get(this.touched, path) === true) {
+			return;
+		}
+
+		this.touched = setIn(this.touched, path, true);
+		this.triggerOnChange('SET_TOUCHED', [path]);
+	}
+
+	// tracks a pending validation for path, a newer validation for the same path supersedes the previous one
+	setValidating(path: Instance.Path, validation: PromiseLike<unknown>): Promise<void> {
+		const key = path.join('.');
+		// items reflect validations of their own path only, form level ones (root path) touch none of them
+		const validatingPaths = size(path) > 0 ? [path] : [];
+		const promise: Promise<void> = Promise.resolve(validation)
+			.then(noop, noop)
+			.then(() => {
+				if (this.validations.get(key) === promise) {
+					this.validations.delete(key);
+					this.triggerOnChange('UNSET_VALIDATING', validatingPaths);
+				}
+			});
+
+		this.validations.set(key, promise);
+		this.triggerOnChange('SET_VALIDATING', validatingPaths);
+
+		return promise;
+	}
+
+	setVisited(path: Instance.Path): void {
+		if (get(this.visited, path) === true) {
+			return;
+		}
+
+		this.visited = setIn(this.visited, path, true);
+		this.triggerOnChange('SET_VISITED', [path]);
+	}
+
+	// warnings are advisory, they never block submit nor count as errors
+	setWarning(path: Instance.Path, value: Instance.Error | Instance.Error[]): Instance.Errors {
+		if (isString(value) && isEmpty(value)) {
+			return this.warnings;
+		}
+
+		this.warnings = setIn(this.warnings, path, value);
+		this.triggerOnChange('SET_WARNING', [path]);
+
+		return this.warnings;
+	}
+
+	// flushes pending items, validates and calls onSubmit, waiting for pending validations and for the returned promise.
+	// submits are ignored while a previous one is still in progress, and invalid ones are routed to "onInvalid" when provided.
+	submit(onSubmit: Instance.SubmitHandler<T>, options: Instance.SubmitOptions<T> = {}): void | Promise<void> {
+		if (this.isSubmitting) {
+			return;
+		}
+
+		this.requestImmediateValue();
+
+		if (!this.runBeforeSubmit()) {
+			return;
+		}
+
+		this.validateForm();
+		this.validateSchema();
+		this.isSubmitting = true;
+		this.lastSubmit = now();
+		this.submitCount += 1;
+		this.submitError = null;
+		this.triggerOnChange('SUBMIT_START');
+
+		const finish = (result: unknown, error: unknown = null) => {
+			this.isSubmitting = false;
+			this.lastSubmitResult = result;
+			this.submitError = error;
+			this.triggerOnChange('SUBMIT_END');
+
+			if (!isNil(error)) {
+				this.reportError(error, null);
+			}
+		};
+
+		const run = (): void | Promise<void> => {
+			const invalid = isFunction(options.onInvalid) && (this.errorsCount() > 0 || this.requiredErrorsCount() > 0);
+			let result: unknown;
+
+			try {
+				result = invalid ? options.onInvalid!(this.submitPayload()) : onSubmit(this.submitPayload());
+			} catch (err) {
+				finish(null, err);
+				throw err;
+			}
+
+			if (invalid) {
+				finish(null);
+				return;
+			}
+
+			if (isPromiseLike(result)) {
+				return Promise.resolve(result).then(
+					result => {
+						finish(result);
+					},
+					err => {
+						finish(null, err);
+						throw err;
+					}
+				);
+			}
+
+			finish(result);
+		};
+
+		if (this.isValidating()) {
+			return this.waitValidations().then(run);
+		}
+
+		return run();
+	}
+
+	// subscribers are notified synchronously about every change, on any channel, backing external stores (e.g. useSyncExternalStore)
+	subscribe(listener: () => void): () => void {
+		if (!isFunction(listener)) {
+			throw new Error('listener must be a function.');
+		}
+
+		this.subscribers.add(listener);
+
+		return () => {
+			this.subscribers.delete(listener);
+		};
+	}
+
+	// runs fn synchronously, notifying its changes once as a "BATCH" action with their label and paths (nested transactions
+	// join the outermost one). when fn throws, the state is rolled back and nothing is notified.
+	transaction<R>(label: string | undefined, fn: () => R): R {
+		const snapshot = {
+			errors: this.errors,
+			initialValue: this.initialValue,
+			requiredErrors: [...this.requiredErrors],
+			sourceErrors: new Map(
+				map([...this.sourceErrors], ([source, errors]) => {
+					return [source, new Map(errors)];
+				})
+			),
+			touched: this.touched,
+			value: this.value,
+			visited: this.visited,
+			warnings: this.warnings
+		};
+
+		const outermost = !this.transactionState;
+
+		if (outermost) {
+			// changes pending from before the transaction are reported on their own
+			this.flush();
+			this.transactionState = { actions: [], changes: [], label, operations: [], paths: [] };
+		}
+
+		const journal = {
+			actions: size(this.transactionState!.actions),
+			changes: size(this.transactionState!.changes),
+			operations: size(this.transactionState!.operations),
+			value: this.journalValue
+		};
+
+		let result: R;
+
+		try {
+			result = fn();
+		} catch (err) {
+			this.errors = snapshot.errors;
+			this.initialValue = snapshot.initialValue;
+			this.requiredErrors = new RequiredErrors(snapshot.requiredErrors);
+			this.sourceErrors = snapshot.sourceErrors;
+			this.touched = snapshot.touched;
+			this.value = snapshot.value;
+			this.visited = snapshot.visited;
+			this.warnings = snapshot.warnings;
+			this.journalValue = journal.value;
+			this.cacheFlush();
+
+			if (outermost) {
+				this.transactionState = null;
+			} else {
+				// rolled back changes are left out of the enclosing transaction notification
+				this.transactionState!.actions.splice(journal.actions);
+				this.transactionState!.changes.splice(journal.changes);
+				this.transactionState!.operations.splice(journal.operations);
+			}
+
+			throw err;
+		}
+
+		if (outermost) {
+			const { actions, changes, operations, paths } = this.transactionState!;
+
+			this.transactionState = null;
+
+			if (size(actions) > 0) {
+				const touchedPaths = uniqBy(paths || [[]], path => {
+					return path.join('.');
+				});
+
+				this.dispatch(actions, touchedPaths, changes, { actions, changes, label, paths: touchedPaths });
+			}
+
+			forEach(operations, operation => {
+				this.runAfterSet(operation);
+			});
+		}
+
+		return result;
+	}
+
+	// paths touched by the change scope cache flushes and item notifications, changes without paths touch the whole form
+	triggerOnChange(action: Instance.Action, paths?: Instance.Path[]) {
+		// keep lastChange strictly increasing, so consumers depending on it never miss changes within the same millisecond
+		this.lastChange = Math.max(now(), this.lastChange + 1);
+		this.cacheFlush(paths);
+
+		const changes = isValueAction(action) ? this.journal(action, paths) : [];
+
+		if (this.transactionState) {
+			const state = this.transactionState;
+
+			state.actions.push(action);
+			state.changes.push(...changes);
+			state.paths = state.paths && paths ? [...state.paths, ...paths] : undefined;
+
+			return;
+		}
+
+		this.dispatch([action], paths, changes);
+	}
+
+	unregisterItem(item: Instance.RegisteredItem): void {
+		this.items.delete(item);
 	}
 
 	unsetError(path: Instance.Path): Instance.Errors {
-		this.errors = deepClean(set(cloneDeep(this.errors), path, null));
-		this.requiredErrors.remove(path);
-		this.triggerOnChange('UNSET_ERROR');
+		const operation = this.runBeforeSet({ action: 'UNSET_ERROR', path: toErrorPath(path), value: undefined });
+
+		if (!operation) {
+			return this.errors;
+		}
+
+		this.errors = unsetIn(this.errors, operation.path, true);
+		this.requiredErrors.remove(operation.path);
+		this.triggerOnChange('UNSET_ERROR', [operation.path]);
+		this.runAfterSet(operation);
 
 		return this.errors;
 	}
 
+	unsetWarning(path: Instance.Path): Instance.Errors {
+		this.warnings = unsetIn(this.warnings, path, true);
+		this.triggerOnChange('UNSET_WARNING', [path]);
+
+		return this.warnings;
+	}
+
 	update(path: Instance.Path, fn: (value: Instance.Value) => Instance.Value): T {
 		if (!isFunction(fn)) {
 			return this.value;
@@ -492,7 +2024,135 @@ class Instance<T extends object = Instance.Value> {
 
 		return this.set(path, fn(value));
 	}
+
+	// plugins run in registration order, the returned function removes the plugin, calling its cleanup
+	use(plugin: Instance.Plugin<T>): () => void {
+		if (!this.plugins.has(plugin)) {
+			this.plugins.set(plugin, null);
+
+			const cleanup = plugin.setup?.(this);
+
+			if (isFunction(cleanup) && this.plugins.has(plugin)) {
+				this.plugins.set(plugin, cleanup);
+			}
+		}
+
+		return () => {
+			if (this.plugins.has(plugin)) {
+				const cleanup = this.plugins.get(plugin);
+
+				this.plugins.delete(plugin);
+				cleanup?.();
+			}
+		};
+	}
+
+	// runs the form level "validate" option, or posts the value to the "worker" option, reconciling the returned errors
+	// with the ones reported before
+	validateForm(): void | Promise<void> {
+		const { validate, worker } = this.options;
+
+		if (!worker && !isFunction(validate)) {
+			return;
+		}
+
+		const seq = ++this.formValidations;
+		const source = worker ? 'worker' : 'validate';
+		const apply = (result: Instance.ValidateResult) => {
+			// discard stale results, a newer validation was started meanwhile
+			if (this.formValidations !== seq) {
+				return;
+			}
+
+			const errors = reduce(
+				result || {},
+				(reduction, error, key) => {
+					if (error && !(isArray(error) && isEmpty(error))) {
+						reduction.push({ error, path: fromDotted(key) });
+					}
+
+					return reduction;
+				},
+				[] as Instance.ReconcileError[]
+			);
+
+			this.reconcileErrors(source, errors);
+		};
+
+		if (worker) {
+			// a pending request is superseded, its response will be discarded
+			this.workerRequest?.resolve(null);
+
+			const response = new Promise<Instance.ValidateResult>((resolve, reject) => {
+				this.workerRequest = { reject, resolve, seq };
+			});
+
+			worker.postMessage({ seq, type: 'validate', value: this.value } as ValidationWorker.Request);
+
+			return this.setValidating([], response.then(apply));
+		}
+
+		const result = validate!(this.value);
+
+		if (isPromiseLike(result)) {
+			return this.setValidating([], Promise.resolve(result).then(apply));
+		}
+
+		apply(result);
+	}
+
+	// validates the whole value against the configured schema, applying only issues within path when provided
+	validateSchema(path?: Instance.Path): void | Promise<void> {
+		const { schema } = this.options;
+
+		if (!schema) {
+			return;
+		}
+
+		const key = path ? path.join('.') : '';
+		const seq = (this.schemaValidations.get(key) || 0) + 1;
+		const apply = (result: StandardSchemaV1.Result<unknown>) => {
+			// discard stale results, a newer validation for the same scope was started meanwhile
+			if (this.schemaValidations.get(key) !== seq) {
+				return;
+			}
+
+			const errors = map(issuesToErrors(result.issues || []), ({ messages, path }) => {
+				return {
+					error: size(messages) > 1 ? messages : messages[0],
+					path
+				};
+			});
+
+			this.reconcileErrors('schema', errors, path);
+		};
+
+		this.schemaValidations.set(key, seq);
+
+		const result = schema['~standard'].validate(this.value);
+
+		if (isPromiseLike(result)) {
+			return this.setValidating(path || [], Promise.resolve(result).then(apply));
+		}
+
+		apply(result);
+	}
+
+	// resolves once every pending validation, including the ones started meanwhile, has settled
+	waitValidations(): Promise<void> {
+		if (this.validations.size === 0) {
+			return Promise.resolve();
+		}
+
+		return Promise.all(this.validations.values()).then(() => {
+			return this.waitValidations();
+		});
+	}
+
+	warningsCount(): number {
+		return size(this.warnings);
+	}
 }
 
-export { Instance, deepClean };
+export { FORM_ERROR_KEY, Instance, deepClean, isErrorObject, move };
 export default Instance;
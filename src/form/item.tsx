@@ -1,4 +1,5 @@
 import { ReactNode, forwardRef, ForwardedRef, useCallback, useContext, useState, useEffect, useId, useRef } from 'react';
+import compact from 'lodash/compact';
 import debounce from 'lodash/debounce';
 import forEach from 'lodash/forEach';
 import isArray from 'lodash/isArray';
@@ -7,19 +8,36 @@ import isFunction from 'lodash/isFunction';
 import isObject from 'lodash/isObject';
 import isString from 'lodash/isString';
 import isUndefined from 'lodash/isUndefined';
+import keys from 'lodash/keys';
+import map from 'lodash/map';
+import partition from 'lodash/partition';
+import pick from 'lodash/pick';
+import size from 'lodash/size';
 import trim from 'lodash/trim';
 
 import context from '@/form/context';
-import Instance from '@/form/instance';
+import Instance, { isErrorObject } from '@/form/instance';
+import { Rules, validateRules } from '@/form/rules';
 import util from '@/form/util';
 
 namespace Item {
 	export type ItemFunctionProps<T extends object = Instance.Value> = {
 		[key: string]: any;
+		// set on the focusable element, so "focusInvalid" can find it
+		'data-id': string;
 		error: Instance.Errors | Instance.Error | Instance.Error[];
+		errorMessage: string | string[] | null;
 		id: string;
+		onBlur: () => void;
 		onChange: (value: Instance.Value) => void;
+		onFocus: () => void;
+		touched: boolean;
+		validating: boolean;
 		value: T;
+		visibleError: Instance.Errors | Instance.Error | Instance.Error[];
+		visited: boolean;
+		warning: Instance.Errors | Instance.Error | Instance.Error[];
+		warningMessage: string | string[] | null;
 	};
 
 	export type ItemFunction<T extends object = Instance.Value> = (props: ItemFunctionProps<T>) => ReactNode;
@@ -33,6 +51,7 @@ namespace Item {
 		}) => Instance.Value;
 		debounce?: number;
 		defaultValue?: Instance.Value;
+		deps?: Instance.Path[];
 		effect?: (input: { instance: Instance; prevValue: Instance.Value; path: Instance.Path; value: Instance.Value }) => void;
 		emptyValue?: Instance.Value;
 		file?: boolean;
@@ -41,22 +60,76 @@ namespace Item {
 		path: Instance.Path;
 		required?:
 			| boolean
-			| ((data: {
-					value: Instance.Value;
-			  }) => string | boolean | { path: Instance.Path; error: string | boolean }[] | { path: Instance.Path; error: string | boolean });
+			| ((data: { instance: Instance; signal: AbortSignal; value: Instance.Value }) => RequiredResult | PromiseLike<RequiredResult>);
 		resetDelay?: number;
+		revalidateOn?: Instance.ValidateOn;
+		rules?: Rules.Rule[];
+		showErrors?: Instance.ShowErrors;
 		transformIn?: (input: { instance: Instance; prevValue: Instance.Value; path: Instance.Path; value: Instance.Value }) => Instance.Value;
 		transformOut?: (input: { instance: Instance; prevValue: Instance.Value; path: Instance.Path; value: Instance.Value }) => Instance.Value;
+		validateOn?: Instance.ValidateOn;
 		valueGetter?: (value: Instance.Value | React.ChangeEvent) => Instance.Value;
 		valueProperty?: string;
 	};
 
+	export type RequiredError = string | boolean | Instance.ErrorObject;
+	export type RequiredResult =
+		RequiredError | { path: Instance.Path; error: RequiredError }[] | { path: Instance.Path; error: RequiredError };
+
+	export type ValidationTrigger = 'blur' | 'change' | 'submit';
+
 	export type State = {
 		error: Instance.Errors | Instance.Error | Instance.Error[];
+		touched: boolean;
+		validating: boolean;
 		value: Instance.Value;
+		visited: boolean;
+		warning: Instance.Errors | Instance.Error | Instance.Error[];
 	};
 }
 
+const isPromiseLike = (value: unknown): value is PromiseLike<unknown> => {
+	return isObject(value) && isFunction((value as PromiseLike<unknown>).then);
+};
+
+const toRequiredError = (instance: Instance, error: Item.RequiredError): Instance.Error => {
+	return isString(error) || isErrorObject(error) ? error : instance.createError('required');
+};
+
+// sets or clears the validation results at path, errors with "warning" severity go to the warnings store.
+// errors reported by other sources (e.g. the form "validate") are left for them to clear
+const applyErrors = (instance: Instance, path: Instance.Path, results: Instance.Error[]): void => {
+	const [warnings, errors] = partition(compact(results), result => {
+		return isErrorObject(result) && result.severity === 'warning';
+	});
+
+	if (size(warnings) > 0) {
+		instance.setWarning(path, size(warnings) > 1 ? warnings : warnings[0]);
+	} else if (instance.getWarning(path)) {
+		instance.unsetWarning(path);
+	}
+
+	if (size(errors) > 0) {
+		instance.setError(path, size(errors) > 1 ? errors : errors[0], true);
+	} else if (!instance.getErrorSource(path)) {
+		instance.unsetError(path);
+	}
+};
+
+// errors are always kept in the instance, the policy only decides when items show them
+const isErrorVisible = (showErrors: Instance.ShowErrors, instance: Instance, path: Instance.Path, touched: boolean): boolean => {
+	switch (showErrors) {
+		case 'dirty':
+			return instance.submitCount > 0 || instance.isDirty(path);
+		case 'submitted':
+			return instance.submitCount > 0;
+		case 'touched':
+			return instance.submitCount > 0 || touched;
+	}
+
+	return true;
+};
+
 const trimString = (value: string): string => {
 	if (isString(value)) {
 		return trim(value);
@@ -72,6 +145,7 @@ const Item = forwardRef(
 			children,
 			debounce: debounceTime = 250,
 			defaultValue = '',
+			deps: propDeps,
 			effect,
 			emptyValue = '',
 			file,
@@ -80,14 +154,24 @@ const Item = forwardRef(
 			path: propPath,
 			required: propRequired,
 			resetDelay = 100,
+			revalidateOn: propRevalidateOn,
+			rules: propRules,
+			showErrors: propShowErrors,
 			transformIn,
 			transformOut,
+			validateOn: propValidateOn,
 			valueGetter,
 			valueProperty = 'value'
 		}: Item.Props,
 		ref: ForwardedRef<unknown>
 	) => {
-		const { instance, locked } = useContext(context);
+		const {
+			instance,
+			locked,
+			revalidateOn: contextRevalidateOn,
+			showErrors: contextShowErrors,
+			validateOn: contextValidateOn
+		} = useContext(context);
 
 		if (isUndefined(instance)) {
 			throw new Error(`"instance.Item" must be used within a "Form" component.`);
@@ -178,69 +262,169 @@ const Item = forwardRef(
 		const idRef = useRef(propId || `form-item-${id}`);
 		const itemRef = useRef<Instance.RegisteredItem>(null);
 		const pathRef = useRef(propPath);
+		const depsRef = useRef(propDeps);
+		const depsValuesRef = useRef(
+			map(propDeps, path => {
+				return instance.get(path);
+			})
+		);
 		const reportFormDelayedRef = useRef<(() => void) & { cancel?: () => void }>(null);
+		const reportPendingRef = useRef(false);
 		const requiredRef = useRef(propRequired);
+		const rulesRef = useRef(propRules);
+		const revalidateOnRef = useRef(propRevalidateOn || contextRevalidateOn);
 		const userInputPendingReportRef = useRef(false);
-
-		const innerStateRef = useRef<Item.State>({
-			error: instance.getError(pathRef.current),
-			value: transformInRef.current()
+		const validateOnRef = useRef(propValidateOn || contextValidateOn);
+		const validationRef = useRef<AbortController | null>(null);
+
+		const getStatus = useRef(() => {
+			return {
+				error: instance.getError(pathRef.current),
+				touched: instance.isTouched(pathRef.current),
+				validating: instance.isValidating(pathRef.current),
+				visited: instance.isVisited(pathRef.current),
+				warning: instance.getWarning(pathRef.current)
+			};
 		});
 
+		const innerStateRef = useRef<Item.State>(null!);
+
+		// initialized once, transformIn runs again only when the instance notifies a related change
+		if (!innerStateRef.current) {
+			innerStateRef.current = {
+				...getStatus.current(),
+				value: transformInRef.current()
+			};
+		}
+
 		const [state, setState] = useState<Item.State>(innerStateRef.current);
-		const reportForm = useRef(() => {
-			const transformed = transformOutRef.current(innerStateRef.current.value);
+		// bumped by the instance only for changes touching this item path or its dependencies
+		const [changes, setChanges] = useState(0);
+		const abortValidation = useRef(() => {
+			if (validationRef.current) {
+				validationRef.current.abort();
+				validationRef.current = null;
+			}
+		});
 
-			if (isFunction(effect)) {
-				effectRef.current(transformed);
+		// rule errors are merged into the item own path, next to the required result
+		const applyRequiredResult = useRef((requiredError: Item.RequiredResult, ruleErrors: Instance.Error[] = []) => {
+			const hasRules = size(rulesRef.current) > 0;
+			let applied = false;
+
+			const apply = (path: Instance.Path, error: Item.RequiredError | null) => {
+				const own = isEqual(path, pathRef.current);
+				const errors = error ? [toRequiredError(instance, error)] : [];
+
+				applied = applied || own;
+				applyErrors(instance, path, own ? [...errors, ...ruleErrors] : errors);
+			};
+
+			if (isArray(requiredError)) {
+				forEach(requiredError, ({ path, error }) => {
+					if (isArray(path)) {
+						apply(path, error);
+					}
+				});
+			} else if (isObject(requiredError) && 'path' in requiredError && isArray(requiredError.path)) {
+				apply(requiredError.path, requiredError.error);
+			} else {
+				apply(pathRef.current, requiredError as Item.RequiredError);
 			}
 
-			instance.set(pathRef.current, transformed);
-			setTimeout(() => {
-				userInputPendingReportRef.current = false;
-			}, resetDelay);
+			if (hasRules && !applied) {
+				applyErrors(instance, pathRef.current, ruleErrors);
+			}
+		});
+
+		const validate = useRef(() => {
+			abortValidation.current();
+
+			const value = trimString(innerStateRef.current.value);
+			const ruleErrors = validateRules(instance, value, rulesRef.current);
 
 			if (requiredRef.current) {
 				if (isFunction(requiredRef.current)) {
+					const controller = new AbortController();
 					const requiredError = requiredRef.current({
-						value: trimString(innerStateRef.current.value)
+						instance,
+						signal: controller.signal,
+						value
 					});
 
-					if (requiredError) {
-						if (isArray(requiredError)) {
-							forEach(requiredError, ({ path, error }) => {
-								if (isArray(path)) {
-									if (error) {
-										instance.setError(path, isString(error) ? error : 'Required Field.', true);
-									} else {
-										instance.unsetError(path);
-									}
-								}
+					if (isPromiseLike(requiredError)) {
+						// stale results are discarded, the validation is superseded as soon as it is aborted
+						const aborted = new Promise<void>(resolve => {
+							controller.signal.addEventListener('abort', () => {
+								resolve();
 							});
-							return;
-						} else if (isObject(requiredError) && isArray(requiredError.path)) {
-							if (requiredError.error) {
-								instance.setError(requiredError.path, isString(requiredError.error) ? requiredError.error : 'Required Field.', true);
-							} else {
-								instance.unsetError(requiredError.path);
-							}
-							return;
-						}
-
-						instance.setError(pathRef.current, isString(requiredError) ? requiredError : 'Required Field.', true);
+						});
+
+						validationRef.current = controller;
+						instance.setValidating(
+							pathRef.current,
+							Promise.race([
+								Promise.resolve(requiredError).then(requiredError => {
+									if (!controller.signal.aborted) {
+										validationRef.current = null;
+										applyRequiredResult.current(requiredError, ruleErrors);
+									}
+								}),
+								aborted
+							])
+						);
 						return;
 					}
-				} else if (trimString(innerStateRef.current.value) === emptyValue) {
-					instance.setError(pathRef.current, 'Required Field.', true);
+
+					applyRequiredResult.current(requiredError, ruleErrors);
+					return;
+				} else if (value === emptyValue) {
+					applyErrors(instance, pathRef.current, [instance.createError('required')]);
 					return;
 				}
 			}
 
-			instance.unsetError(pathRef.current);
+			applyErrors(instance, pathRef.current, ruleErrors);
+		});
+
+		// validation timing depends on the mode, "revalidateOn" takes over after the first submit
+		const shouldValidate = useRef((trigger: Item.ValidationTrigger) => {
+			const mode = instance.lastSubmit > 0 ? revalidateOnRef.current : validateOnRef.current;
+
+			switch (trigger) {
+				case 'blur':
+					return mode === 'blur' || mode === 'touched';
+				case 'change':
+					return mode === 'change' || (mode === 'touched' && instance.isTouched(pathRef.current));
+				case 'submit':
+					return true;
+			}
+		});
+
+		const reportForm = useRef((trigger: Item.ValidationTrigger = 'change') => {
+			const transformed = transformOutRef.current(innerStateRef.current.value);
+
+			reportPendingRef.current = false;
+
+			if (isFunction(effect)) {
+				effectRef.current(transformed);
+			}
+
+			instance.set(pathRef.current, transformed);
+			setTimeout(() => {
+				userInputPendingReportRef.current = false;
+			}, resetDelay);
+
+			if (shouldValidate.current(trigger)) {
+				validate.current();
+				instance.validateSchema(pathRef.current);
+			}
 		});
 
 		// effect to setup form, runs once
 		useEffect(() => {
+			const abort = abortValidation.current;
+
 			if (debounceTime && debounceTime > 0) {
 				reportFormDelayedRef.current = debounce(reportForm.current, debounceTime);
 			} else {
@@ -249,13 +433,21 @@ const Item = forwardRef(
 
 			if (!itemRef.current) {
 				itemRef.current = {
+					getPath: () => {
+						return pathRef.current;
+					},
 					id: idRef.current,
+					notify: () => {
+						setChanges(changes => {
+							return changes + 1;
+						});
+					},
 					reportFormImmediate: () => {
 						if (reportFormDelayedRef.current?.cancel) {
 							reportFormDelayedRef.current.cancel();
 						}
 
-						reportForm.current();
+						reportForm.current('submit');
 					}
 				};
 			}
@@ -267,6 +459,8 @@ const Item = forwardRef(
 					reportFormDelayedRef.current.cancel();
 				}
 
+				abort();
+
 				if (itemRef.current) {
 					instance.unregisterItem(itemRef.current);
 				}
@@ -278,44 +472,100 @@ const Item = forwardRef(
 			pathRef.current = propPath;
 		}, [propPath]);
 
-		// update required
+		// update and register deps, keyed by their paths so inline arrays do not register on every render
+		const depsKey = map(propDeps, path => {
+			return path.join('.');
+		}).join('|');
+
+		useEffect(() => {
+			depsRef.current = propDeps;
+			depsValuesRef.current = map(propDeps, path => {
+				return instance.get(path);
+			});
+
+			if (size(propDeps) > 0) {
+				return instance.registerDependencies(pathRef.current, propDeps!);
+			}
+		}, [depsKey, instance]); // eslint-disable-line react-hooks/exhaustive-deps
+
+		// update required and rules
 		useEffect(() => {
 			requiredRef.current = propRequired;
-		}, [propRequired]);
+			rulesRef.current = propRules;
+		}, [propRequired, propRules]);
 
-		// update error or error and value when user input is not pending to report
+		// update validation modes
 		useEffect(() => {
-			const error = instance.getError(pathRef.current);
-
-			// when user input is pending to report (means there are changes in the value, not accept external value for the moment), we just update the error
-			if (userInputPendingReportRef.current) {
-				if (!isEqual(error, innerStateRef.current.error)) {
-					innerStateRef.current.error = error;
-					setState(state => {
-						return {
-							...state,
-							error
-						};
-					});
-				}
-			} else {
-				// when user input is not pending to report, we update the error and value (accept external value)
-				const value = transformInRef.current();
-
-				if (!isEqual(error, innerStateRef.current.error) || !isEqual(value, innerStateRef.current.value)) {
-					innerStateRef.current.error = error;
-					innerStateRef.current.value = value;
-
-					setState(state => {
-						return {
-							...state,
-							error,
-							value
-						};
-					});
+			revalidateOnRef.current = propRevalidateOn || contextRevalidateOn;
+			validateOnRef.current = propValidateOn || contextValidateOn;
+		}, [contextRevalidateOn, contextValidateOn, propRevalidateOn, propValidateOn]);
+
+		// update status or status and value when user input is not pending to report
+		useEffect(() => {
+			const status = getStatus.current();
+
+			// when user input is pending to report (means there are changes in the value, not accept external value for the moment), we just update the status
+			// when user input is not pending to report, we update the status and value (accept external value)
+			const nextState: Partial<Item.State> = userInputPendingReportRef.current
+				? status
+				: {
+						...status,
+						value: transformInRef.current()
+					};
+
+			if (!isEqual(nextState, pick(innerStateRef.current, keys(nextState)))) {
+				Object.assign(innerStateRef.current, nextState);
+				setState(state => {
+					return {
+						...state,
+						...nextState
+					};
+				});
+			}
+		}, [changes, instance]);
+
+		// revalidate without touching the value when a dependency changes
+		useEffect(() => {
+			const depsValues = map(depsRef.current, path => {
+				return instance.get(path);
+			});
+
+			if (isEqual(depsValues, depsValuesRef.current)) {
+				return;
+			}
+
+			depsValuesRef.current = depsValues;
+
+			if (shouldValidate.current('change')) {
+				validate.current();
+				instance.validateSchema(pathRef.current);
+			}
+		}, [changes, instance]);
+
+		const onBlur = useCallback(() => {
+			instance.setTouched(pathRef.current);
+
+			if (!shouldValidate.current('blur')) {
+				return;
+			}
+
+			// flush pending user input, so the value being validated is the one just left
+			if (reportPendingRef.current) {
+				if (reportFormDelayedRef.current?.cancel) {
+					reportFormDelayedRef.current.cancel();
 				}
+
+				reportForm.current('blur');
+				return;
 			}
-		}, [instance, instance.lastChange]);
+
+			validate.current();
+			instance.validateSchema(pathRef.current);
+		}, [instance]);
+
+		const onFocus = useCallback(() => {
+			instance.setVisited(pathRef.current);
+		}, [instance]);
 
 		const onChange = useCallback(
 			(value: Instance.Value | React.ChangeEvent) => {
@@ -337,6 +587,10 @@ const Item = forwardRef(
 					}
 				}
 
+				// a new value makes any in-flight validation stale
+				abortValidation.current();
+
+				reportPendingRef.current = true;
 				userInputPendingReportRef.current = true;
 				innerStateRef.current.value = value;
 				setState(state => {
@@ -353,22 +607,38 @@ const Item = forwardRef(
 			[locked, file, valueProperty]
 		);
 
+		const errorMessage = instance.formatError(state.error, pathRef.current);
+		const visibleError = isErrorVisible(propShowErrors || contextShowErrors, instance, pathRef.current, state.touched) ? state.error : null;
+		const warningMessage = instance.formatError(state.warning, pathRef.current);
 		const childrenProps = {
-			'data-error': state.error,
+			'data-error': visibleError ? errorMessage : null,
 			'data-id': idRef.current,
+			'data-warning': warningMessage,
+			onBlur,
 			[onChangeProperty]: onChange,
+			onFocus,
 			[valueProperty]: file ? null : childTransformRef.current(state.value),
 			ref
 		};
 
 		const itemFunctionProps: Item.ItemFunctionProps = {
+			'data-id': idRef.current,
 			error: state.error,
+			errorMessage,
 			id: idRef.current,
+			onBlur,
 			onChange,
-			value: state.value
+			onFocus,
+			touched: state.touched,
+			validating: state.validating,
+			value: state.value,
+			visibleError,
+			visited: state.visited,
+			warning: state.warning,
+			warningMessage
 		};
 
-		return util.renderChildren(children, childrenProps, itemFunctionProps);
+		return util.renderChildren(children, childrenProps, itemFunctionProps, ['onBlur', 'onFocus']);
 	}
 );
 
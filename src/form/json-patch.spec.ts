@@ -0,0 +1,82 @@
+import { describe, expect, it } from 'vitest';
+
+import { createPatch, resolvePointer } from '@/form/json-patch';
+
+describe('/form/json-patch', () => {
+	describe('createPatch', () => {
+		it('should diff objects', () => {
+			const a = { age: 30, name: 'John', user: { city: 'NY', zip: '10001' } };
+			const b = { email: 'john@example.com', name: 'John', user: { city: 'LA', zip: '10001' } };
+
+			expect(createPatch(a, b)).toEqual([
+				{ op: 'remove', path: '/age' },
+				{ op: 'add', path: '/email', value: 'john@example.com' },
+				{ op: 'replace', path: '/user/city', value: 'LA' }
+			]);
+
+			expect(createPatch(a, a)).toEqual([]);
+			expect(createPatch({ name: undefined }, { name: 'John' })).toEqual([{ op: 'add', path: '/name', value: 'John' }]);
+		});
+
+		it('should report list insertions, removals and moves', () => {
+			const x = { name: 'x' };
+			const y = { name: 'y' };
+			const z = { name: 'z' };
+
+			expect(createPatch({ items: [x, y] }, { items: [x, z, y] })).toEqual([{ op: 'add', path: '/items/1', value: z }]);
+			expect(createPatch({ items: [x, y, z] }, { items: [x, z] })).toEqual([{ op: 'remove', path: '/items/1' }]);
+			expect(createPatch({ items: [x, y, z] }, { items: [z, x, y] })).toEqual([{ from: '/items/2', op: 'move', path: '/items/0' }]);
+			expect(createPatch({ items: [x, y, z] }, { items: [x] })).toEqual([
+				{ op: 'remove', path: '/items/2' },
+				{ op: 'remove', path: '/items/1' }
+			]);
+		});
+
+		it('should diff list items edited in place', () => {
+			expect(createPatch({ items: [{ name: 'x' }, { name: 'y' }] }, { items: [{ name: 'x' }, { name: 'w' }] })).toEqual([
+				{ op: 'replace', path: '/items/1/name', value: 'w' }
+			]);
+		});
+
+		it('should escape keys', () => {
+			expect(createPatch({}, { 'a/b': 1, 'c~d': 2 })).toEqual([
+				{ op: 'add', path: '/a~1b', value: 1 },
+				{ op: 'add', path: '/c~0d', value: 2 }
+			]);
+		});
+	});
+
+	describe('resolvePointer', () => {
+		const value = { items: ['a', 'b'], user: { name: 'John' } };
+
+		it('should resolve object members', () => {
+			expect(resolvePointer(value, '/user/name')).toEqual({
+				exists: true,
+				index: -1,
+				list: null,
+				parent: { name: 'John' },
+				path: ['user', 'name']
+			});
+
+			expect(resolvePointer(value, '/user/email').exists).toEqual(false);
+			expect(resolvePointer(value, '').path).toEqual([]);
+		});
+
+		it('should resolve list items', () => {
+			expect(resolvePointer(value, '/items/1')).toEqual({
+				exists: true,
+				index: 1,
+				list: ['items'],
+				parent: ['a', 'b'],
+				path: ['items', 1]
+			});
+			expect(resolvePointer(value, '/items/-')).toEqual({
+				exists: false,
+				index: 2,
+				list: ['items'],
+				parent: ['a', 'b'],
+				path: ['items', '-']
+			});
+		});
+	});
+});
@@ -0,0 +1,145 @@
+import findIndex from 'lodash/findIndex';
+import forEach from 'lodash/forEach';
+import get from 'lodash/get';
+import has from 'lodash/has';
+import isArray from 'lodash/isArray';
+import isEqual from 'lodash/isEqual';
+import isNumber from 'lodash/isNumber';
+import isObject from 'lodash/isObject';
+import isPlainObject from 'lodash/isPlainObject';
+import isUndefined from 'lodash/isUndefined';
+import keys from 'lodash/keys';
+import last from 'lodash/last';
+import size from 'lodash/size';
+
+import Instance from '@/form/instance';
+import { fromPointer, toPointer } from '@/form/path';
+
+// RFC 6902 (https://datatracker.ietf.org/doc/html/rfc6902)
+namespace JsonPatch {
+	export type Operation =
+		| { op: 'add' | 'replace' | 'test'; path: string; value: Instance.Value }
+		| { op: 'copy' | 'move'; from: string; path: string }
+		| { op: 'remove'; path: string };
+
+	export type Target = {
+		exists: boolean;
+		// list items resolve to their list and index, -1 otherwise
+		index: number;
+		list: Instance.Path | null;
+		parent: Instance.Value;
+		path: Instance.Path;
+	};
+}
+
+// "-" stands for the end of the list
+const resolvePointer = (value: Instance.Value, pointer: string): JsonPatch.Target => {
+	const path = fromPointer(pointer);
+
+	if (size(path) === 0) {
+		return { exists: true, index: -1, list: null, parent: null, path };
+	}
+
+	const key = last(path)!;
+	const parentPath = path.slice(0, -1);
+	const parent = size(parentPath) > 0 ? get(value, parentPath) : value;
+
+	if (isArray(parent)) {
+		const index = key === '-' ? size(parent) : isNumber(key) ? key : -1;
+
+		return { exists: index >= 0 && index < size(parent), index, list: parentPath, parent, path };
+	}
+
+	return { exists: isObject(parent) && has(parent, key), index: -1, list: null, parent, path };
+};
+
+// list items are matched by value, so insertions, removals and moves are reported as such instead of replacing the list
+const diffList = (a: Instance.Value[], b: Instance.Value[], path: Instance.Path, operations: JsonPatch.Operation[]) => {
+	const list = [...a];
+	const indexOf = (items: Instance.Value[], value: Instance.Value, fromIndex: number) => {
+		return findIndex(items, item => isEqual(item, value), fromIndex);
+	};
+
+	let index = 0;
+
+	while (index < size(b)) {
+		if (index < size(list) && isEqual(list[index], b[index])) {
+			index++;
+			continue;
+		}
+
+		const kept = index < size(list) && indexOf(b, list[index], index) >= 0;
+		const found = indexOf(list, b[index], index + 1);
+
+		if (index < size(list) && !kept && found < 0) {
+			// edited in place
+			diffValue(list[index], b[index], [...path, index], operations);
+			list[index] = b[index];
+			index++;
+		} else if (index < size(list) && !kept) {
+			operations.push({ op: 'remove', path: toPointer([...path, index]) });
+			list.splice(index, 1);
+		} else if (found >= 0) {
+			operations.push({ from: toPointer([...path, found]), op: 'move', path: toPointer([...path, index]) });
+			list.splice(index, 0, ...list.splice(found, 1));
+			index++;
+		} else {
+			operations.push({ op: 'add', path: toPointer([...path, index]), value: b[index] });
+			list.splice(index, 0, b[index]);
+			index++;
+		}
+	}
+
+	for (let i = size(list) - 1; i >= size(b); i--) {
+		operations.push({ op: 'remove', path: toPointer([...path, i]) });
+	}
+};
+
+// undefined object entries are treated as missing, as they are in JSON
+const diffValue = (a: Instance.Value, b: Instance.Value, path: Instance.Path, operations: JsonPatch.Operation[]) => {
+	if (isEqual(a, b)) {
+		return;
+	}
+
+	if (isArray(a) && isArray(b)) {
+		diffList(a, b, path, operations);
+
+		return;
+	}
+
+	if (isPlainObject(a) && isPlainObject(b)) {
+		forEach(keys(a), key => {
+			if (!isUndefined(a[key]) && isUndefined(b[key])) {
+				operations.push({ op: 'remove', path: toPointer([...path, key]) });
+			}
+		});
+
+		forEach(keys(b), key => {
+			if (isUndefined(b[key])) {
+				return;
+			}
+
+			if (isUndefined(a[key])) {
+				operations.push({ op: 'add', path: toPointer([...path, key]), value: b[key] });
+			} else {
+				diffValue(a[key], b[key], [...path, key], operations);
+			}
+		});
+
+		return;
+	}
+
+	operations.push({ op: 'replace', path: toPointer(path), value: b });
+};
+
+// operations turning a into b, values are shared with b rather than copied
+const createPatch = (a: Instance.Value, b: Instance.Value): JsonPatch.Operation[] => {
+	const operations: JsonPatch.Operation[] = [];
+
+	diffValue(a, b, [], operations);
+
+	return operations;
+};
+
+export { createPatch, resolvePointer };
+export type { JsonPatch };
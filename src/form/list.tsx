@@ -9,7 +9,7 @@ import reject from 'lodash/reject';
 import size from 'lodash/size';
 
 import context from '@/form/context';
-import Instance from '@/form/instance';
+import Instance, { move } from '@/form/instance';
 import util from '@/form/util';
 
 namespace List {
@@ -19,10 +19,11 @@ namespace List {
 		getId: (value: Instance.Value, key: number, index: number) => string;
 		getKey: (index: number) => number;
 		getNthValue: (index: number) => Instance.Value | null;
-		onAdd: (value: Instance.Value, index?: number) => number;
+		onAdd: (value: Instance.Value, index?: number) => number | undefined;
 		onRemove: (index: number) => void;
 		onMove: (from: number, to: number) => void;
 		items: Item[];
+		limitMessage: string | null;
 		path: Instance.Path;
 		replace: (value: Instance.Value) => void;
 		size: number;
@@ -64,8 +65,17 @@ namespace List {
 		filter?: (item: List.Item<T>) => boolean;
 	};
 
+	export type RenderProps = {
+		add: (value: Instance.Value, index?: number) => number | undefined;
+		canAdd: boolean;
+		getNthValue: (index: number) => Instance.Value | null;
+		limitMessage: string | null;
+		replace: (value: Instance.Value) => void;
+		size: number;
+	};
+
 	export type Props = {
-		children: ReactNode;
+		children: ReactNode | ((props: RenderProps) => ReactNode);
 		getId?: (value: Instance.Value, key: number, index: number) => string;
 		min?: number;
 		max?: number;
@@ -83,32 +93,23 @@ const listContext = createContext<List.Context>({
 	onRemove: () => {},
 	onMove: () => {},
 	items: [],
+	limitMessage: null,
 	path: [],
 	replace: () => {},
 	size: 0
 });
 
-const move = <T extends Instance.Value[]>(array: T, moveIndex: number, toIndex: number): T => {
-	const size = array.length;
-
-	if (moveIndex < 0 || moveIndex >= size || toIndex < 0 || toIndex >= size) {
-		return array;
-	}
-
-	const item = array[moveIndex];
-	const diff = moveIndex - toIndex;
-
-	if (diff > 0) {
-		// move left
-		return [...array.slice(0, toIndex), item, ...array.slice(toIndex, moveIndex), ...array.slice(moveIndex + 1, size)] as T;
+// built-in messages for lists below "min" or reaching "max", rendered through the form message catalog
+const limitError = (instance: Instance, size: number, min: number, max: number): string | null => {
+	if (size < min) {
+		return instance.formatError({ code: 'list.min', params: { min } }) as string;
 	}
 
-	if (diff < 0) {
-		// move right
-		return [...array.slice(0, moveIndex), ...array.slice(moveIndex + 1, toIndex + 1), item, ...array.slice(toIndex + 1, size)] as T;
+	if (size >= max) {
+		return instance.formatError({ code: 'list.max', params: { max } }) as string;
 	}
 
-	return array;
+	return null;
 };
 
 const List = ({
@@ -134,6 +135,26 @@ const List = ({
 		return key;
 	}, []);
 
+	// keys are updated ahead of the list operation and restored when it isn't applied (e.g. cancelled by a plugin),
+	// so they never drift from the items
+	const applyKeys = useCallback(
+		(keys: number[], operation: () => Instance.Value): boolean => {
+			const prevKeys = keyManager.current.keys;
+			const prevValue = instance.value;
+
+			keyManager.current.keys = keys;
+
+			if (operation() === prevValue) {
+				keyManager.current.keys = prevKeys;
+
+				return false;
+			}
+
+			return true;
+		},
+		[instance]
+	);
+
 	const onAdd = useCallback(
 		(value: Instance.Value, index = -1) => {
 			if (!value) {
@@ -144,19 +165,17 @@ const List = ({
 			const key = keyManager.current.id++;
 			const itemsSize = size(items);
 
-			if (index >= 0 && index <= itemsSize) {
-				keyManager.current.keys = [...keyManager.current.keys.slice(0, index), key, ...keyManager.current.keys.slice(index)];
-				instance.set(path, [...items.slice(0, index), value, ...items.slice(index)]);
-
-				return key;
+			if (index < 0 || index > itemsSize) {
+				index = itemsSize;
 			}
 
-			keyManager.current.keys = [...keyManager.current.keys, key];
-			instance.set(path, [...items, value]);
+			const applied = applyKeys([...keyManager.current.keys.slice(0, index), key, ...keyManager.current.keys.slice(index)], () => {
+				return instance.listInsert(path, index, value);
+			});
 
-			return key;
+			return applied ? key : undefined;
 		},
-		[instance, path]
+		[applyKeys, instance, path]
 	);
 
 	const onMove = useCallback(
@@ -173,56 +192,26 @@ const List = ({
 				return;
 			}
 
-			keyManager.current.keys = move(keyManager.current.keys, from, to);
-
-			const fromError = instance.getError([...path, from]) as Instance.Error;
-			const fromRequiredError = instance.requiredErrors.has([...path, from]);
-			const toError = instance.getError([...path, to]) as Instance.Error;
-			const toRequiredError = instance.requiredErrors.has([...path, to]);
-
-			instance.unsetError([...path, from]);
-			instance.unsetError([...path, to]);
-
-			if (fromError) {
-				instance.setError([...path, to], fromError);
-
-				if (fromRequiredError) {
-					instance.requiredErrors.add([...path, to]);
-				}
-			}
-
-			if (toError) {
-				instance.setError([...path, from], toError);
-
-				if (toRequiredError) {
-					instance.requiredErrors.add([...path, from]);
-				}
-			}
-
-			return instance.set(path, move(items, from, to));
+			// errors, touched and visited flags follow the moved items
+			applyKeys(move(keyManager.current.keys, from, to), () => {
+				return instance.listMove(path, from, to);
+			});
 		},
-		[instance, path]
+		[applyKeys, instance, path]
 	);
 
 	const onRemove = useCallback(
 		(index: number) => {
-			const items = instance.get(path, []) as Instance.Value[];
-
-			instance.requiredErrors.remove([...path, index]);
-			instance.unsetError([...path, index]);
-
-			keyManager.current.keys = reject(keyManager.current.keys, (_, index_) => {
-				return index === index_;
-			});
-
-			return instance.set(
-				path,
-				reject(items, (_, index_) => {
+			applyKeys(
+				reject(keyManager.current.keys, (_, index_) => {
 					return index === index_;
-				})
+				}),
+				() => {
+					return instance.listRemove(path, index);
+				}
 			);
 		},
-		[instance, path]
+		[applyKeys, instance, path]
 	);
 
 	const items = map(instance.get(path, []), (value, index) => {
@@ -248,6 +237,7 @@ const List = ({
 	const itemsSize = size(items);
 	const canAdd = itemsSize < max;
 	const canRemove = itemsSize > min;
+	const limitMessage = limitError(instance, itemsSize, min, max);
 
 	const contextValue: List.Context = {
 		canAdd,
@@ -259,6 +249,7 @@ const List = ({
 		onRemove,
 		onMove,
 		items,
+		limitMessage,
 		path,
 		replace,
 		size: itemsSize
@@ -276,8 +267,9 @@ const List = ({
 				},
 				canAdd,
 				getNthValue,
+				limitMessage,
 				replace,
-				size
+				size: itemsSize
 			})}
 		</listContext.Provider>
 	);
@@ -425,6 +417,7 @@ type ListAddRenderProps = {
 	getNthValue: (index: number) => Instance.Value | null;
 	instance: Instance;
 	items: List.Item[];
+	limitMessage: string | null;
 	replace: (value: Instance.Value) => void;
 	size: number;
 	value: Instance.Value;
@@ -437,7 +430,7 @@ type ListAddProps = {
 
 const ListAdd = ({ children }: ListAddProps) => {
 	const { instance } = useContext(context);
-	const { canAdd, getNthValue, onAdd, items, replace, size } = useContext(listContext);
+	const { canAdd, getNthValue, onAdd, items, limitMessage, replace, size } = useContext(listContext);
 
 	return util.renderChildren(children, {
 		add: (value: Instance.Value, index = -1) => {
@@ -451,6 +444,7 @@ const ListAdd = ({ children }: ListAddProps) => {
 		getNthValue,
 		instance,
 		items,
+		limitMessage,
 		replace,
 		size
 	});
@@ -0,0 +1,34 @@
+import { describe, expect, it } from 'vitest';
+
+import { createMergePatch } from '@/form/merge-patch';
+
+describe('/form/merge-patch', () => {
+	describe('createMergePatch', () => {
+		it('should include changed members only', () => {
+			const a = { age: 30, name: 'John', user: { city: 'NY', zip: '10001' } };
+			const b = { age: 30, name: 'Jane', user: { city: 'LA', zip: '10001' } };
+
+			expect(createMergePatch(a, b)).toEqual({ name: 'Jane', user: { city: 'LA' } });
+			expect(createMergePatch(a, a)).toEqual({});
+		});
+
+		it('should set removed members to null', () => {
+			expect(createMergePatch({ age: 30, name: 'John' }, { name: 'John' })).toEqual({ age: null });
+			expect(createMergePatch({ age: 30, name: 'John' }, { age: undefined, name: 'John' })).toEqual({ age: null });
+			expect(createMergePatch({ user: { name: 'John' } }, {})).toEqual({ user: null });
+		});
+
+		it('should replace lists as a whole', () => {
+			const a = { tags: ['a', 'b'], items: [{ name: 'a' }] };
+			const b = { tags: ['a', 'b'], items: [{ name: 'a' }, { name: 'b' }] };
+
+			expect(createMergePatch(a, b)).toEqual({ items: [{ name: 'a' }, { name: 'b' }] });
+		});
+
+		it('should replace values changing type', () => {
+			expect(createMergePatch({ user: 'John' }, { user: { name: 'John' } })).toEqual({ user: { name: 'John' } });
+			expect(createMergePatch({ user: { name: 'John' } }, { user: 'John' })).toEqual({ user: 'John' });
+			expect(createMergePatch(['a'], ['b'])).toEqual(['b']);
+		});
+	});
+});
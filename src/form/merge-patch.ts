@@ -0,0 +1,46 @@
+import forEach from 'lodash/forEach';
+import isEqual from 'lodash/isEqual';
+import isPlainObject from 'lodash/isPlainObject';
+import isUndefined from 'lodash/isUndefined';
+import keys from 'lodash/keys';
+import size from 'lodash/size';
+
+import Instance from '@/form/instance';
+
+// RFC 7396 (https://datatracker.ietf.org/doc/html/rfc7396) patch turning a into b: removed members are set to null,
+// lists and other values are replaced as a whole. Undefined members are treated as missing, as they are in JSON
+const createMergePatch = (a: Instance.Value, b: Instance.Value): Instance.Value => {
+	if (!isPlainObject(a) || !isPlainObject(b)) {
+		return isUndefined(b) ? null : b;
+	}
+
+	const patch: { [key: string]: Instance.Value } = {};
+
+	forEach(keys(a), key => {
+		if (!isUndefined(a[key]) && isUndefined(b[key])) {
+			patch[key] = null;
+		}
+	});
+
+	forEach(keys(b), key => {
+		if (isUndefined(b[key]) || isEqual(a[key], b[key])) {
+			return;
+		}
+
+		if (isPlainObject(a[key]) && isPlainObject(b[key])) {
+			const nested = createMergePatch(a[key], b[key]);
+
+			if (size(nested) > 0) {
+				patch[key] = nested;
+			}
+
+			return;
+		}
+
+		patch[key] = b[key];
+	});
+
+	return patch;
+};
+
+export { createMergePatch };
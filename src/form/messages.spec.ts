@@ -0,0 +1,78 @@
+import { describe, expect, it } from 'vitest';
+
+import { formatMessage, localeChain, translate } from '@/form/messages';
+
+describe('/form/messages', () => {
+	describe('formatMessage', () => {
+		it('should interpolate arguments', () => {
+			expect(formatMessage('Hello {name}!', { name: 'John' })).toEqual('Hello John!');
+			expect(formatMessage('At least {min} characters', { min: 1000 }, 'de')).toEqual('At least 1.000 characters');
+		});
+
+		it('should keep unknown arguments', () => {
+			expect(formatMessage('Hello {name}!')).toEqual('Hello {name}!');
+		});
+
+		it('should format plurals', () => {
+			const message = 'You have {count, plural, =0 {no items} one {# item} other {# items}}.';
+
+			expect(formatMessage(message, { count: 0 })).toEqual('You have no items.');
+			expect(formatMessage(message, { count: 1 })).toEqual('You have 1 item.');
+			expect(formatMessage(message, { count: 5 })).toEqual('You have 5 items.');
+		});
+
+		it('should use locale plural rules', () => {
+			const message = '{count, plural, one {# plik} few {# pliki} many {# plików} other {# pliku}}';
+
+			expect(formatMessage(message, { count: 1 }, 'pl')).toEqual('1 plik');
+			expect(formatMessage(message, { count: 3 }, 'pl')).toEqual('3 pliki');
+			expect(formatMessage(message, { count: 5 }, 'pl')).toEqual('5 plików');
+		});
+
+		it('should format selects', () => {
+			const message = '{gender, select, female {She} male {He} other {They}} replied to {name}.';
+
+			expect(formatMessage(message, { gender: 'female', name: 'John' })).toEqual('She replied to John.');
+			expect(formatMessage(message, { name: 'John' })).toEqual('They replied to John.');
+		});
+
+		it('should format nested arguments', () => {
+			const message = '{count, plural, one {{name} has # item} other {{name} has # items}}';
+
+			expect(formatMessage(message, { count: 2, name: 'John' })).toEqual('John has 2 items');
+		});
+	});
+
+	describe('localeChain', () => {
+		it('should include parent and fallback locales', () => {
+			expect(localeChain('pt-BR')).toEqual(['pt-BR', 'pt']);
+			expect(localeChain('pt-BR', ['es', 'en-US'])).toEqual(['pt-BR', 'pt', 'es', 'en-US', 'en']);
+			expect(localeChain('pt', 'pt')).toEqual(['pt']);
+		});
+	});
+
+	describe('translate', () => {
+		const messages = {
+			en: {
+				required: 'This field is required.',
+				tooShort: 'At least {min} characters.'
+			},
+			pt: {
+				required: 'Campo obrigatório.'
+			}
+		};
+
+		it('should look up codes along the locale chain', () => {
+			expect(translate('required', {}, { locale: 'pt-BR', messages })).toEqual('Campo obrigatório.');
+			expect(translate('tooShort', { min: 3 }, { fallbackLocale: 'en', locale: 'pt-BR', messages })).toEqual('At least 3 characters.');
+			expect(translate('tooShort', { min: 3 }, { locale: 'pt-BR', messages })).toBeNull();
+		});
+
+		it('should fall back to built-in messages', () => {
+			expect(translate('required')).toEqual('Required Field.');
+			expect(translate('list.max', { max: 1 })).toEqual('Maximum of 1 item reached.');
+			expect(translate('required', {}, { defaults: false })).toBeNull();
+			expect(translate('unknown')).toBeNull();
+		});
+	});
+});
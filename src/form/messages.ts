@@ -0,0 +1,195 @@
+import castArray from 'lodash/castArray';
+import isNil from 'lodash/isNil';
+import isNumber from 'lodash/isNumber';
+import isString from 'lodash/isString';
+import trim from 'lodash/trim';
+import uniq from 'lodash/uniq';
+
+namespace Messages {
+	export type Catalog = { [code: string]: string };
+	export type Catalogs = { [locale: string]: Catalog };
+	export type Options = {
+		defaults?: boolean;
+		fallbackLocale?: string | string[];
+		locale?: string;
+		messages?: Catalogs | null;
+	};
+
+	export type Params = { [key: string]: unknown };
+}
+
+const DEFAULT_LOCALE = 'en';
+
+// built-in messages, used when no catalog in the locale chain defines the code
+const defaultMessages: Messages.Catalog = {
+	'list.max': 'Maximum of {max, plural, one {# item} other {# items}} reached.',
+	'list.min': 'Minimum of {min, plural, one {# item} other {# items}} required.',
+	required: 'Required Field.',
+	'rules.email': 'Invalid email address.',
+	'rules.integer': 'Must be an integer.',
+	'rules.len': 'Must have a length of {len}.',
+	'rules.max': 'Must be at most {max}.',
+	'rules.maxItems': 'No more than {max, plural, one {# item} other {# items}}.',
+	'rules.maxLength': 'No more than {max, plural, one {# character} other {# characters}}.',
+	'rules.min': 'Must be at least {min}.',
+	'rules.minItems': 'At least {min, plural, one {# item} other {# items}}.',
+	'rules.minLength': 'At least {min, plural, one {# character} other {# characters}}.',
+	'rules.number': 'Must be a number.',
+	'rules.pattern': 'Invalid format.',
+	'rules.url': 'Invalid URL.'
+};
+
+const pluralRules = (locale: string): Intl.PluralRules => {
+	try {
+		return new Intl.PluralRules(locale);
+	} catch {
+		return new Intl.PluralRules(DEFAULT_LOCALE);
+	}
+};
+
+const formatNumber = (value: number, locale: string): string => {
+	try {
+		return new Intl.NumberFormat(locale).format(value);
+	} catch {
+		return String(value);
+	}
+};
+
+// index of the brace closing the one opened at start
+const closingBrace = (message: string, start: number): number => {
+	let depth = 0;
+
+	for (let i = start; i < message.length; i++) {
+		if (message[i] === '{') {
+			depth++;
+		} else if (message[i] === '}' && --depth === 0) {
+			return i;
+		}
+	}
+
+	return -1;
+};
+
+// "one {# item} other {# items}" -> { one: '# item', other: '# items' }
+const parseOptions = (options: string): { [key: string]: string } => {
+	const result: { [key: string]: string } = {};
+	let i = 0;
+
+	while (i < options.length) {
+		const start = options.indexOf('{', i);
+
+		if (start < 0) {
+			break;
+		}
+
+		const end = closingBrace(options, start);
+
+		if (end < 0) {
+			break;
+		}
+
+		result[trim(options.slice(i, start))] = options.slice(start + 1, end);
+		i = end + 1;
+	}
+
+	return result;
+};
+
+const formatArgument = (argument: string, params: Messages.Params, locale: string): string | null => {
+	const [name, type, ...rest] = argument.split(',');
+	const key = trim(name);
+	const value = params[key];
+
+	if (isNil(type)) {
+		if (isNil(value)) {
+			return null;
+		}
+
+		return isNumber(value) ? formatNumber(value, locale) : String(value);
+	}
+
+	const options = parseOptions(rest.join(','));
+
+	switch (trim(type)) {
+		case 'plural': {
+			const count = Number(value);
+			const option = options[`=${count}`] ?? options[pluralRules(locale).select(count)] ?? options.other;
+
+			return isNil(option) ? null : formatMessage(option, params, locale, count);
+		}
+		case 'select': {
+			const option = options[String(value)] ?? options.other;
+
+			return isNil(option) ? null : formatMessage(option, params, locale);
+		}
+	}
+
+	return null;
+};
+
+// ICU-style interpolation supporting "{name}", "{count, plural, =0 {none} one {# item} other {# items}}" and "{kind, select, a {...} other {...}}"
+const formatMessage = (message: string, params: Messages.Params = {}, locale: string = DEFAULT_LOCALE, count?: number): string => {
+	let result = '';
+	let i = 0;
+
+	while (i < message.length) {
+		const char = message[i];
+
+		if (char === '{') {
+			const end = closingBrace(message, i);
+
+			if (end < 0) {
+				result += message.slice(i);
+				break;
+			}
+
+			const argument = message.slice(i + 1, end);
+			const formatted = formatArgument(argument, params, locale);
+
+			// unknown arguments are kept as is, making missing params visible
+			result += isNil(formatted) ? `{${argument}}` : formatted;
+			i = end + 1;
+			continue;
+		}
+
+		result += char === '#' && !isNil(count) ? formatNumber(count, locale) : char;
+		i++;
+	}
+
+	return result;
+};
+
+// "pt-BR" with fallback "es" -> ['pt-BR', 'pt', 'es']
+const localeChain = (locale: string = DEFAULT_LOCALE, fallbackLocale: string | string[] = []): string[] => {
+	return uniq(
+		[locale, ...castArray(fallbackLocale)].flatMap(locale => {
+			const parts = locale.split('-');
+
+			return parts.map((_, index) => {
+				return parts.slice(0, parts.length - index).join('-');
+			});
+		})
+	);
+};
+
+// looks the code up along the locale chain, falling back to built-in messages unless "defaults" is false
+const translate = (code: string, params: Messages.Params = {}, options: Messages.Options = {}): string | null => {
+	const chain = localeChain(options.locale, options.fallbackLocale);
+
+	for (const locale of chain) {
+		const catalog = options.messages?.[locale];
+
+		if (catalog && isString(catalog[code])) {
+			return formatMessage(catalog[code], params, locale);
+		}
+	}
+
+	if (options.defaults !== false && isString(defaultMessages[code])) {
+		return formatMessage(defaultMessages[code], params, chain[0]);
+	}
+
+	return null;
+};
+
+export { defaultMessages, formatMessage, localeChain, translate };
+export type { Messages };
@@ -0,0 +1,62 @@
+import { describe, expect, it } from 'vitest';
+
+import { setIn, unsetIn } from '@/form/path';
+
+describe('/form/path', () => {
+	describe('setIn', () => {
+		it('should copy only containers along the path', () => {
+			const tree = { items: [{ name: 'a' }, { name: 'b' }], user: { name: 'John' } };
+			const result = setIn(tree, ['items', 1, 'name'], 'c');
+
+			expect(result).toEqual({ items: [{ name: 'a' }, { name: 'c' }], user: { name: 'John' } });
+			expect(tree.items[1].name).toEqual('b');
+			expect(result).not.toBe(tree);
+			expect(result.items).not.toBe(tree.items);
+			expect(result.items[0]).toBe(tree.items[0]);
+			expect(result.user).toBe(tree.user);
+		});
+
+		it('should keep the tree when the value is unchanged', () => {
+			const tree = { user: { name: 'John' } };
+
+			expect(setIn(tree, ['user', 'name'], 'John')).toBe(tree);
+		});
+
+		it('should create missing containers', () => {
+			expect(setIn({}, ['items', 0, 'name'], 'a')).toEqual({ items: [{ name: 'a' }] });
+			expect(setIn({ user: 'John' }, ['user', 'name'], 'John')).toEqual({ user: { name: 'John' } });
+			expect(setIn({}, ['items', '1'], 'a')).toEqual({ items: [undefined, 'a'] });
+		});
+
+		it('should replace the root for empty paths', () => {
+			expect(setIn({ name: 'John' }, [], { name: 'Jane' })).toEqual({ name: 'Jane' });
+		});
+	});
+
+	describe('unsetIn', () => {
+		it('should copy only containers along the path', () => {
+			const tree = { user: { address: { city: 'NY' }, name: 'John' }, tags: ['a'] };
+			const result = unsetIn(tree, ['user', 'name']);
+
+			expect(result).toEqual({ user: { address: { city: 'NY' } }, tags: ['a'] });
+			expect(tree.user.name).toEqual('John');
+			expect(result.user.address).toBe(tree.user.address);
+			expect(result.tags).toBe(tree.tags);
+		});
+
+		it('should keep the tree when the path does not exist', () => {
+			const tree = { user: { name: 'John' } };
+
+			expect(unsetIn(tree, ['user', 'age'])).toBe(tree);
+			expect(unsetIn(tree, ['address', 'city'])).toBe(tree);
+			expect(unsetIn(tree, [])).toBe(tree);
+		});
+
+		it('should prune emptied containers', () => {
+			expect(unsetIn({ user: { name: 'Required' } }, ['user', 'name'])).toEqual({ user: {} });
+			expect(unsetIn({ user: { name: 'Required' } }, ['user', 'name'], true)).toEqual({});
+			expect(unsetIn({ items: [{ name: 'a' }, { name: 'b' }] }, ['items', 0, 'name'], true)).toEqual({ items: [null, { name: 'b' }] });
+			expect(unsetIn({ items: [{ name: 'a' }], title: 'x' }, ['items', 0, 'name'], true)).toEqual({ title: 'x' });
+		});
+	});
+});
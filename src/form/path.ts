@@ -0,0 +1,117 @@
+import every from 'lodash/every';
+import has from 'lodash/has';
+import isArray from 'lodash/isArray';
+import isEmpty from 'lodash/isEmpty';
+import isNil from 'lodash/isNil';
+import isNumber from 'lodash/isNumber';
+import isObject from 'lodash/isObject';
+import isPlainObject from 'lodash/isPlainObject';
+import isString from 'lodash/isString';
+import map from 'lodash/map';
+import size from 'lodash/size';
+import toPath from 'lodash/toPath';
+
+import Instance from '@/form/instance';
+
+const INDEX_REGEX = /^(0|[1-9]\d*)$/;
+
+const toKey = (key: string): string | number => {
+	return INDEX_REGEX.test(key) ? Number(key) : key;
+};
+
+// "items.0.name" or "items[0].name" -> ['items', 0, 'name']
+const fromDotted = (path: string): Instance.Path => {
+	return map(toPath(path), toKey);
+};
+
+// RFC 6901 JSON pointer, "/items/0/name" (or "#/items/0/name") -> ['items', 0, 'name']
+const fromPointer = (pointer: string): Instance.Path => {
+	if (!isString(pointer)) {
+		return [];
+	}
+
+	// URI fragment representation is percent-encoded
+	if (pointer.startsWith('#')) {
+		pointer = decodeURIComponent(pointer.slice(1));
+	}
+
+	if (pointer === '' || pointer === '/') {
+		return [];
+	}
+
+	return map(pointer.replace(/^\//, '').split('/'), key => {
+		return toKey(key.replace(/~1/g, '/').replace(/~0/g, '~'));
+	});
+};
+
+// ['items', 0, 'name'] -> "/items/0/name"
+const toPointer = (path: Instance.Path): string => {
+	return map(path, key => {
+		return `/${String(key).replace(/~/g, '~0').replace(/\//g, '~1')}`;
+	}).join('');
+};
+
+const isIndex = (key: string | number): boolean => {
+	return isNumber(key) || INDEX_REGEX.test(key);
+};
+
+const isEmptyNode = (value: Instance.Value): boolean => {
+	return isNil(value) || (isPlainObject(value) && isEmpty(value)) || (isArray(value) && every(value, isNil));
+};
+
+const copyNode = (node: Instance.Value): Instance.Value => {
+	return isArray(node) ? [...node] : { ...node };
+};
+
+// copy-on-write "set", only containers along path are copied so untouched branches keep their identity.
+// missing containers are created like lodash "set" does, arrays for index keys and objects otherwise
+const setIn = <T>(tree: T, path: Instance.Path, value: Instance.Value): T => {
+	if (size(path) === 0) {
+		return value;
+	}
+
+	const [key, ...rest] = path;
+	const node: Instance.Value = isObject(tree) ? tree : isIndex(key) ? [] : {};
+	const child = setIn(node[key], rest, value);
+
+	if (node === tree && node[key] === child && has(node, key)) {
+		return tree;
+	}
+
+	const copy = copyNode(node);
+
+	copy[key] = child;
+
+	return copy;
+};
+
+// copy-on-write "unset", when prune is set containers left empty along path are removed too,
+// keeping list items as null to preserve indexes
+const unsetIn = <T>(tree: T, path: Instance.Path, prune: boolean = false): T => {
+	const node: Instance.Value = tree;
+
+	if (size(path) === 0 || !isObject(tree) || !has(tree, path[0])) {
+		return tree;
+	}
+
+	const [key, ...rest] = path;
+	const child = size(rest) > 0 ? unsetIn(node[key], rest, prune) : undefined;
+
+	if (size(rest) > 0 && child === node[key]) {
+		return tree;
+	}
+
+	const copy = copyNode(node);
+
+	if (size(rest) > 0 && !(prune && isEmptyNode(child))) {
+		copy[key] = child;
+	} else if (prune && isArray(copy)) {
+		copy[key as number] = null;
+	} else {
+		delete copy[key];
+	}
+
+	return copy;
+};
+
+export { fromDotted, fromPointer, setIn, toPointer, unsetIn };
@@ -0,0 +1,94 @@
+import { beforeEach, describe, expect, it } from 'vitest';
+
+import { Instance } from '@/form/instance';
+import { validateRules } from '@/form/rules';
+
+describe('/form/rules', () => {
+	let instance: Instance;
+
+	beforeEach(() => {
+		instance = new Instance();
+	});
+
+	describe('validateRules', () => {
+		it('should skip empty values', () => {
+			expect(validateRules(instance, '', [{ type: 'email' }, { min: 3 }])).toEqual([]);
+			expect(validateRules(instance, null, [{ type: 'email' }])).toEqual([]);
+		});
+
+		it('should check types', () => {
+			expect(validateRules(instance, 'john@doe.com', [{ type: 'email' }])).toEqual([]);
+			expect(validateRules(instance, 'john@doe', [{ type: 'email' }])).toEqual(['Invalid email address.']);
+			expect(validateRules(instance, 'https://example.com/path?q=1', [{ type: 'url' }])).toEqual([]);
+			expect(validateRules(instance, 'example.com', [{ type: 'url' }])).toEqual(['Invalid URL.']);
+			expect(validateRules(instance, '1.5', [{ type: 'number' }])).toEqual([]);
+			expect(validateRules(instance, 'abc', [{ type: 'number' }])).toEqual(['Must be a number.']);
+			expect(validateRules(instance, '1.5', [{ type: 'integer' }])).toEqual(['Must be an integer.']);
+		});
+
+		it('should check lengths of strings and lists', () => {
+			expect(validateRules(instance, 'Jo', [{ min: 3 }])).toEqual(['At least 3 characters.']);
+			expect(validateRules(instance, 'John Doe', [{ max: 4 }])).toEqual(['No more than 4 characters.']);
+			expect(validateRules(instance, 'John', [{ len: 5 }])).toEqual(['Must have a length of 5.']);
+			expect(validateRules(instance, ['a'], [{ min: 2 }])).toEqual(['At least 2 items.']);
+			expect(validateRules(instance, 'John', [{ max: 4, min: 3 }])).toEqual([]);
+		});
+
+		it('should check numeric ranges', () => {
+			expect(validateRules(instance, 150, [{ max: 100, min: 0 }])).toEqual(['Must be at most 100.']);
+			expect(validateRules(instance, '-1', [{ min: 0, type: 'number' }])).toEqual(['Must be at least 0.']);
+			expect(validateRules(instance, '50', [{ max: 100, min: 0, type: 'number' }])).toEqual([]);
+		});
+
+		it('should check patterns', () => {
+			expect(validateRules(instance, 'ABC-123', [{ pattern: '^[a-z]{3}-\\d+$', flags: 'i' }])).toEqual([]);
+			expect(validateRules(instance, 'ABC', [{ message: 'Use the XXX-000 format.', pattern: /^[A-Z]{3}-\d+$/ }])).toEqual([
+				'Use the XXX-000 format.'
+			]);
+			expect(validateRules(instance, 'ABC', [{ pattern: /^\d+$/g }])).toEqual(['Invalid format.']);
+		});
+
+		it('should fail invalid patterns instead of throwing', () => {
+			expect(validateRules(instance, 'ABC', [{ pattern: '^[a-z' }])).toEqual(['Invalid format.']);
+			expect(validateRules(instance, 'ABC', [{ flags: 'x', pattern: '^[a-z]+$' }])).toEqual(['Invalid format.']);
+			expect(validateRules(instance, 'abc', [{ pattern: '^[a-z' }, { min: 5 }])).toEqual(['Invalid format.', 'At least 5 characters.']);
+		});
+
+		it('should return every failing rule', () => {
+			expect(validateRules(instance, 'ab', [{ type: 'email' }, { min: 3 }, { message: 'Only digits.', pattern: '^\\d+$' }])).toEqual([
+				'Invalid email address.',
+				'At least 3 characters.',
+				'Only digits.'
+			]);
+		});
+
+		it('should interpolate custom messages and codes', () => {
+			expect(validateRules(instance, 'Jo', [{ message: 'Use {min} characters or more.', min: 3 }])).toEqual(['Use 3 characters or more.']);
+
+			instance.configure({ messages: { en: {} } });
+
+			expect(validateRules(instance, 'Jo', [{ code: 'nickname', min: 3 }, { min: 4 }])).toEqual([
+				{ code: 'nickname', params: { min: 3 } },
+				{ code: 'rules.minLength', params: { min: 4 } }
+			]);
+		});
+
+		it('should keep custom codes without a message catalog', () => {
+			expect(validateRules(instance, 'ab', [{ code: 'tooShort', min: 3 }])).toEqual([{ code: 'tooShort', params: { min: 3 } }]);
+			expect(validateRules(instance, 'ab', [{ code: 'badEmail', type: 'email' }])).toEqual([{ code: 'badEmail', params: {} }]);
+			expect(instance.formatError(validateRules(instance, 'ab', [{ code: 'tooShort', min: 3 }]))).toEqual(['tooShort']);
+		});
+
+		it('should create warnings', () => {
+			expect(validateRules(instance, 150, [{ max: 100, message: 'Looks high.', severity: 'warning' }])).toEqual([
+				{ code: 'rules.max', message: 'Looks high.', params: { max: 100 }, severity: 'warning' }
+			]);
+		});
+
+		it('should accept serialized rules', () => {
+			const rules = JSON.parse(JSON.stringify([{ type: 'email' }, { max: 10 }, { pattern: '@example\\.com$' }]));
+
+			expect(validateRules(instance, 'john.doe@gmail.com', rules)).toEqual(['No more than 10 characters.', 'Invalid format.']);
+		});
+	});
+});
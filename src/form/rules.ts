@@ -0,0 +1,146 @@
+import isArray from 'lodash/isArray';
+import isEmpty from 'lodash/isEmpty';
+import isFinite from 'lodash/isFinite';
+import isNil from 'lodash/isNil';
+import isNumber from 'lodash/isNumber';
+import isRegExp from 'lodash/isRegExp';
+import isString from 'lodash/isString';
+import omitBy from 'lodash/omitBy';
+import size from 'lodash/size';
+import trim from 'lodash/trim';
+
+import Instance from '@/form/instance';
+import { formatMessage } from '@/form/messages';
+
+namespace Rules {
+	// plain objects, so the same definitions can be sent from a server ("pattern" as a string with "flags")
+	export type Rule = {
+		code?: string;
+		flags?: string;
+		len?: number;
+		max?: number;
+		message?: string;
+		min?: number;
+		pattern?: string | RegExp;
+		severity?: 'error' | 'warning';
+		type?: Type;
+	};
+
+	export type Type = 'email' | 'integer' | 'number' | 'url';
+}
+
+const EMAIL_REGEX = /^[^\s@]+@[^\s@]+\.[^\s@]+$/;
+const URL_REGEX = /^https?:\/\/[^\s/$.?#].[^\s]*$/i;
+
+// string patterns are compiled once, invalid ones are kept as null so they fail their rule instead of throwing
+const PATTERNS = new Map<string, RegExp | null>();
+
+const compilePattern = (pattern: string, flags: string = ''): RegExp | null => {
+	const key = `${flags}/${pattern}`;
+
+	if (!PATTERNS.has(key)) {
+		try {
+			PATTERNS.set(key, new RegExp(pattern, flags));
+		} catch {
+			PATTERNS.set(key, null);
+		}
+	}
+
+	return PATTERNS.get(key)!;
+};
+
+const isEmptyValue = (value: Instance.Value): boolean => {
+	return isNil(value) || (isString(value) && trim(value) === '') || (isArray(value) && isEmpty(value));
+};
+
+const toNumber = (value: Instance.Value): number => {
+	if (isNumber(value)) {
+		return value;
+	}
+
+	return isString(value) && trim(value) !== '' ? Number(value) : NaN;
+};
+
+const checkType = (type: Rules.Type, value: Instance.Value): boolean => {
+	switch (type) {
+		case 'email':
+			return isString(value) && EMAIL_REGEX.test(value);
+		case 'integer':
+			return Number.isInteger(toNumber(value));
+		case 'number':
+			return isFinite(toNumber(value));
+		case 'url':
+			return isString(value) && URL_REGEX.test(value);
+	}
+
+	return true;
+};
+
+// numeric rules compare values, otherwise min, max and len apply to string or list lengths
+const measure = (rule: Rules.Rule, value: Instance.Value): { kind: 'Items' | 'Length' | ''; size: number } => {
+	if (rule.type === 'integer' || rule.type === 'number' || isNumber(value)) {
+		return { kind: '', size: toNumber(value) };
+	}
+
+	return { kind: isArray(value) ? 'Items' : 'Length', size: size(value) };
+};
+
+const createRuleError = (
+	instance: Instance,
+	rule: Rules.Rule,
+	code: string,
+	params: Instance.ErrorObject['params'] = {}
+): Instance.Error => {
+	const message = rule.message ? formatMessage(rule.message, params) : null;
+
+	// warnings are kept as objects, so the item routes them to the warnings store
+	if (rule.severity === 'warning') {
+		return omitBy({ code: rule.code || code, message, params, severity: 'warning' }, isNil) as Instance.ErrorObject;
+	}
+
+	return message || instance.createError(rule.code || code, params);
+};
+
+// checks value against each rule, empty values are left to "required"
+const validateRules = (instance: Instance, value: Instance.Value, rules: Rules.Rule[] = []): Instance.Error[] => {
+	if (isEmptyValue(value)) {
+		return [];
+	}
+
+	const errors: Instance.Error[] = [];
+
+	for (const rule of rules) {
+		if (rule.type && !checkType(rule.type, value)) {
+			errors.push(createRuleError(instance, rule, `rules.${rule.type}`));
+			continue;
+		}
+
+		const { kind, size } = measure(rule, value);
+
+		if (isNumber(rule.len) && size !== rule.len) {
+			errors.push(createRuleError(instance, rule, 'rules.len', { len: rule.len }));
+		} else if (isNumber(rule.min) && size < rule.min) {
+			errors.push(createRuleError(instance, rule, `rules.min${kind}`, { min: rule.min }));
+		} else if (isNumber(rule.max) && size > rule.max) {
+			errors.push(createRuleError(instance, rule, `rules.max${kind}`, { max: rule.max }));
+		}
+
+		if (rule.pattern) {
+			const pattern = isRegExp(rule.pattern) ? rule.pattern : compilePattern(rule.pattern, rule.flags);
+
+			// reset stateful (global or sticky) patterns between runs
+			if (pattern) {
+				pattern.lastIndex = 0;
+			}
+
+			if (!pattern || !pattern.test(String(value))) {
+				errors.push(createRuleError(instance, rule, 'rules.pattern', { pattern: String(rule.pattern) }));
+			}
+		}
+	}
+
+	return errors;
+};
+
+export { validateRules };
+export type { Rules };
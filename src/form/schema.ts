@@ -0,0 +1,83 @@
+import forEach from 'lodash/forEach';
+import isNumber from 'lodash/isNumber';
+import isObject from 'lodash/isObject';
+import isString from 'lodash/isString';
+import map from 'lodash/map';
+
+// Standard Schema v1 interface (https://standardschema.dev), implemented by Zod, Valibot, ArkType and others
+interface StandardSchemaV1<Input = unknown, Output = Input> {
+	readonly '~standard': StandardSchemaV1.Props<Input, Output>;
+}
+
+namespace StandardSchemaV1 {
+	export interface Props<Input = unknown, Output = Input> {
+		readonly types?: Types<Input, Output> | undefined;
+		readonly validate: (value: unknown) => Result<Output> | Promise<Result<Output>>;
+		readonly vendor: string;
+		readonly version: 1;
+	}
+
+	export type Result<Output> = SuccessResult<Output> | FailureResult;
+
+	export interface SuccessResult<Output> {
+		readonly issues?: undefined;
+		readonly value: Output;
+	}
+
+	export interface FailureResult {
+		readonly issues: ReadonlyArray<Issue>;
+	}
+
+	export interface Issue {
+		readonly message: string;
+		readonly path?: ReadonlyArray<PropertyKey | PathSegment> | undefined;
+	}
+
+	export interface PathSegment {
+		readonly key: PropertyKey;
+	}
+
+	export interface Types<Input = unknown, Output = Input> {
+		readonly input: Input;
+		readonly output: Output;
+	}
+}
+
+type SchemaError = {
+	messages: string[];
+	path: (string | number)[];
+};
+
+const issuePath = (issue: StandardSchemaV1.Issue): (string | number)[] => {
+	return map(issue.path || [], segment => {
+		const key = isObject(segment) ? (segment as StandardSchemaV1.PathSegment).key : segment;
+
+		if (isNumber(key) || isString(key)) {
+			return key;
+		}
+
+		return String(key);
+	});
+};
+
+// group issue messages by path, keeping the order issues were reported
+const issuesToErrors = (issues: ReadonlyArray<StandardSchemaV1.Issue>): SchemaError[] => {
+	const errors = new Map<string, SchemaError>();
+
+	forEach(issues, issue => {
+		const path = issuePath(issue);
+		const key = path.join('.');
+		const error = errors.get(key);
+
+		if (error) {
+			error.messages.push(issue.message);
+		} else {
+			errors.set(key, { messages: [issue.message], path });
+		}
+	});
+
+	return [...errors.values()];
+};
+
+export { issuesToErrors };
+export type { SchemaError, StandardSchemaV1 };
@@ -0,0 +1,152 @@
+import forEach from 'lodash/forEach';
+import isArray from 'lodash/isArray';
+import isFunction from 'lodash/isFunction';
+import isNumber from 'lodash/isNumber';
+import isPlainObject from 'lodash/isPlainObject';
+import isString from 'lodash/isString';
+import size from 'lodash/size';
+import some from 'lodash/some';
+
+import Instance from '@/form/instance';
+import { fromDotted, fromPointer } from '@/form/path';
+
+namespace ServerErrors {
+	export type Format = 'auto' | 'flat' | 'jsonapi' | 'problem' | (string & {}) | Parser;
+	export type Parser = (response: any) => Instance.ReconcileError[];
+}
+
+// collect messages by path, multiple messages for the same path become an array
+const collect = (entries: { message: string; path: Instance.Path }[]): Instance.ReconcileError[] => {
+	const errors = new Map<string, { messages: string[]; path: Instance.Path }>();
+
+	forEach(entries, ({ message, path }) => {
+		const key = path.join('.');
+		const error = errors.get(key);
+
+		if (error) {
+			error.messages.push(message);
+		} else {
+			errors.set(key, { messages: [message], path });
+		}
+	});
+
+	return [...errors.values()].map(({ messages, path }) => {
+		return {
+			error: size(messages) > 1 ? messages : messages[0],
+			path
+		};
+	});
+};
+
+// { "items.0.name": "Invalid name" } or { "errors": { "items.0.name": ["Invalid name"] } }
+const flat: ServerErrors.Parser = response => {
+	const errors = isPlainObject(response?.errors) ? response.errors : response;
+	const entries: { message: string; path: Instance.Path }[] = [];
+
+	forEach(errors, (messages, key) => {
+		forEach(isArray(messages) ? messages : [messages], message => {
+			if (isString(message) && message) {
+				entries.push({ message, path: fromDotted(key) });
+			}
+		});
+	});
+
+	return collect(entries);
+};
+
+// { "errors": [{ "detail": "Invalid name", "source": { "pointer": "/data/attributes/name" } }] }
+const jsonapi: ServerErrors.Parser = response => {
+	const entries: { message: string; path: Instance.Path }[] = [];
+
+	forEach(response?.errors, error => {
+		const pointer = error?.source?.pointer;
+		const message = error?.detail || error?.title;
+
+		if (isString(pointer) && isString(message)) {
+			entries.push({
+				message,
+				path: fromPointer(pointer.replace(/^\/data\/(attributes|relationships)(?=\/|$)/, ''))
+			});
+		}
+	});
+
+	return collect(entries);
+};
+
+// RFC 7807 / 9457 problem details with "errors" ({ detail, pointer }) or "invalid-params" ({ name, reason }) extensions
+const problem: ServerErrors.Parser = response => {
+	const entries: { message: string; path: Instance.Path }[] = [];
+
+	forEach(response?.errors, error => {
+		const message = error?.detail || error?.message;
+
+		if (isString(error?.pointer) && isString(message)) {
+			entries.push({ message, path: fromPointer(error.pointer) });
+		}
+	});
+
+	forEach(response?.['invalid-params'], param => {
+		if (isString(param?.name) && isString(param?.reason)) {
+			entries.push({ message: param.reason, path: fromDotted(param.name) });
+		}
+	});
+
+	return collect(entries);
+};
+
+const parsers = new Map<string, ServerErrors.Parser>([
+	['flat', flat],
+	['jsonapi', jsonapi],
+	['problem', problem]
+]);
+
+// a numeric "status" or a URI "type" never come from field error messages
+const isProblem = (response: any): boolean => {
+	return isNumber(response?.status) || (isString(response?.type) && /^(about:|https?:|\/)/.test(response.type));
+};
+
+const detect = (response: any): ServerErrors.Parser => {
+	if (isArray(response?.errors) && some(response.errors, 'source')) {
+		return jsonapi;
+	}
+
+	if (isArray(response?.['invalid-params']) || isArray(response?.errors)) {
+		return problem;
+	}
+
+	// plain problems carry no field errors, problems with an "errors" map (e.g. ASP.NET ValidationProblemDetails) are flat ones
+	if (isProblem(response) && !isPlainObject(response.errors)) {
+		return problem;
+	}
+
+	return flat;
+};
+
+const parseServerErrors = (response: unknown, format: ServerErrors.Format = 'auto'): Instance.ReconcileError[] => {
+	if (isFunction(format)) {
+		return format(response);
+	}
+
+	if (format === 'auto') {
+		return detect(response)(response);
+	}
+
+	const parser = parsers.get(format);
+
+	if (!parser) {
+		throw new Error(`Unknown server errors format "${format}".`);
+	}
+
+	return parser(response);
+};
+
+const registerServerErrorParser = (format: string, parser: ServerErrors.Parser): void => {
+	if (!isFunction(parser)) {
+		throw new Error('parser must be a function.');
+	}
+
+	parsers.set(format, parser);
+};
+
+export { parseServerErrors, registerServerErrorParser };
+export type { ServerErrors };
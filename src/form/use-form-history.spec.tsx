@@ -148,4 +148,45 @@ describe('useFormHistory', () => {
 			expect(historyState.canUndo).toEqual(false);
 		});
 	});
+
+	it('should record batched changes as a single entry', async () => {
+		const instance = new Instance({ city: '', state: '', zip: '' });
+		const wrapper = createFormWrapper(instance);
+
+		const { result } = renderHook(
+			() => {
+				return useFormHistory({ debounceMs: 0, maxCapacity: 5 });
+			},
+			{ wrapper }
+		);
+
+		act(() => {
+			instance.set(['zip'], '10001');
+		});
+
+		await waitFor(() => {
+			expect(result.current[0].canUndo).toEqual(true);
+		});
+
+		act(() => {
+			instance.batch(() => {
+				instance.set(['city'], 'New York');
+				instance.set(['state'], 'NY');
+			});
+		});
+
+		await waitFor(() => {
+			expect(instance.get(['state'])).toEqual('NY');
+		});
+
+		// a single undo reverts the whole batch
+		act(() => {
+			result.current[1].undo();
+		});
+
+		await waitFor(() => {
+			expect(instance.value).toEqual({ city: '', state: '', zip: '10001' });
+			expect(result.current[0].canUndo).toEqual(true);
+		});
+	});
 });
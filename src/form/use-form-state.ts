@@ -0,0 +1,27 @@
+import { useContext } from 'react';
+
+import { instanceContext } from '@/form/context';
+import Instance from '@/form/instance';
+import useSelector, { UseSelector } from '@/form/use-selector';
+
+const useFormState = <R, T extends object = Instance.Value>(
+	selector: UseSelector.Selector<Instance.Payload<T>, R>,
+	isEqual?: UseSelector.IsEqual<R>
+): R => {
+	const instance = useContext(instanceContext) as Instance<T>;
+
+	if (!instance) {
+		throw new Error('"useFormState" must be wrapped by a "Form".');
+	}
+
+	return useSelector(
+		instance,
+		() => {
+			return instance.getPayload();
+		},
+		selector,
+		isEqual
+	);
+};
+
+export default useFormState;
@@ -0,0 +1,43 @@
+import isEqualDeep from 'lodash/isEqual';
+import { useCallback, useRef, useSyncExternalStore } from 'react';
+
+import Instance from '@/form/instance';
+
+namespace UseSelector {
+	export type IsEqual<R> = (a: R, b: R) => boolean;
+	export type Selector<S, R> = (source: S) => R;
+}
+
+// subscribes to the instance, re-rendering only when the selected slice changes according to isEqual
+const useSelector = <S, R>(
+	instance: Instance,
+	read: () => S,
+	selector: UseSelector.Selector<S, R>,
+	isEqual: UseSelector.IsEqual<R> = isEqualDeep
+): R => {
+	const selectionRef = useRef<{ value: R } | null>(null);
+	const subscribe = useCallback(
+		(listener: () => void) => {
+			return instance.subscribe(listener);
+		},
+		[instance]
+	);
+
+	// previous selections are kept while equal, so snapshots stay stable between changes
+	const getSnapshot = () => {
+		const value = selector(read());
+
+		if (selectionRef.current && isEqual(selectionRef.current.value, value)) {
+			return selectionRef.current.value;
+		}
+
+		selectionRef.current = { value };
+
+		return value;
+	};
+
+	return useSyncExternalStore(subscribe, getSnapshot, getSnapshot);
+};
+
+export type { UseSelector };
+export default useSelector;
@@ -0,0 +1,34 @@
+import identity from 'lodash/identity';
+import { useContext } from 'react';
+
+import { instanceContext } from '@/form/context';
+import Instance from '@/form/instance';
+import useSelector, { UseSelector } from '@/form/use-selector';
+
+type UseWatch = {
+	<V = any>(path: Instance.Path): V;
+	<V = any, R = V>(path: Instance.Path, selector?: UseSelector.Selector<V, R>, isEqual?: UseSelector.IsEqual<R>): R;
+};
+
+const useWatch: UseWatch = <V = any, R = V>(
+	path: Instance.Path,
+	selector: UseSelector.Selector<V, R> = identity,
+	isEqual?: UseSelector.IsEqual<R>
+): R => {
+	const instance = useContext(instanceContext);
+
+	if (!instance) {
+		throw new Error('"useWatch" must be wrapped by a "Form".');
+	}
+
+	return useSelector(
+		instance,
+		() => {
+			return instance.get<V>(path);
+		},
+		selector,
+		isEqual
+	);
+};
+
+export default useWatch;
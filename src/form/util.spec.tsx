@@ -97,6 +97,18 @@ describe('/form/util', () => {
 			expect(element2.textContent).toBe('Child 2');
 		});
 
+		it('should chain element own handlers', () => {
+			const own = vi.fn();
+			const merged = vi.fn();
+			const res = util.renderChildren(<Test onClick={own} />, { onClick: merged, onFocus: merged }, {}, ['onClick', 'onFocus']);
+			const { getByTestId } = render(res);
+
+			getByTestId('test-element').click();
+
+			expect(own).toHaveBeenCalledTimes(1);
+			expect(merged).toHaveBeenCalledTimes(1);
+		});
+
 		it('should filter out null/undefined elements in an array', () => {
 			const children = [
 				<Test
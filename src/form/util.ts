@@ -1,5 +1,6 @@
 import { ReactNode, ReactElement, Children, cloneElement, Key } from 'react';
 import clsx from 'clsx';
+import forEach from 'lodash/forEach';
 import isArray from 'lodash/isArray';
 import isFunction from 'lodash/isFunction';
 
@@ -14,7 +15,8 @@ type RenderChildrenFunction<T extends RenderChildrenProps = RenderChildrenProps>
 const renderChildren = <T extends RenderChildrenProps = RenderChildrenProps>(
 	children: ReactNode | RenderChildrenFunction<T>,
 	mergeProps?: Partial<T> | null,
-	mergePropsForFunction?: Partial<T>
+	mergePropsForFunction?: Partial<T>,
+	chainProps: string[] = []
 ): ReactNode => {
 	if (!children) {
 		return null;
@@ -44,11 +46,28 @@ const renderChildren = <T extends RenderChildrenProps = RenderChildrenProps>(
 				return null;
 			}
 
-			return renderChildren(child, mergeProps, mergePropsForFunction);
+			return renderChildren(child, mergeProps, mergePropsForFunction, chainProps);
 		});
 	}
 
-	return cloneElement(children as ReactElement, props((children as ReactElement).props as Partial<T>));
+	const childProps = (children as ReactElement).props as Partial<T>;
+	const elementProps = props(childProps);
+
+	// handlers in chainProps call the element own handler too, instead of replacing it
+	forEach(chainProps, key => {
+		const own = childProps?.[key];
+		const merged = mergeProps?.[key];
+
+		if (isFunction(own) && isFunction(merged) && own !== merged) {
+			(elementProps as RenderChildrenProps)[key] = (...args: unknown[]) => {
+				own(...args);
+
+				return merged(...args);
+			};
+		}
+	});
+
+	return cloneElement(children as ReactElement, elementProps);
 };
 
 export default { renderChildren };
@@ -0,0 +1,138 @@
+import castArray from 'lodash/castArray';
+import forEach from 'lodash/forEach';
+import isFunction from 'lodash/isFunction';
+import size from 'lodash/size';
+
+import Instance from '@/form/instance';
+import { issuesToErrors, StandardSchemaV1 } from '@/form/schema';
+
+namespace ValidationWorker {
+	export type Listener = (event: { data: any }) => void;
+	export type Options = {
+		schema?: StandardSchemaV1 | null;
+		validate?: Instance.Validator | null;
+	};
+
+	// the subset of Worker (and of the worker global scope) used by the validation protocol
+	export type Port = {
+		addEventListener: (type: 'message', listener: Listener) => void;
+		postMessage: (message: any) => void;
+		removeEventListener: (type: 'message', listener: Listener) => void;
+	};
+
+	export type Request = { seq: number; type: 'validate'; value: Instance.Value };
+	// failed validations answer with their error message instead of errors, so the pending request is settled anyway
+	export type Response = { errors: Instance.ValidateResult; seq: number } | { error: string; seq: number };
+}
+
+const runValidation = (options: ValidationWorker.Options, value: Instance.Value): Promise<Instance.ValidateResult> => {
+	const errors: { [path: string]: Instance.Error[] } = {};
+	const add = (path: string, error: Instance.Error | Instance.Error[]) => {
+		errors[path] = [...(errors[path] || []), ...castArray(error)];
+	};
+
+	return Promise.resolve()
+		.then(() => {
+			return options.schema ? options.schema['~standard'].validate(value) : null;
+		})
+		.then(result => {
+			forEach(issuesToErrors(result?.issues || []), ({ messages, path }) => {
+				add(path.join('.'), messages);
+			});
+
+			return isFunction(options.validate) ? options.validate(value) : null;
+		})
+		.then(result => {
+			forEach(result, (error, path) => {
+				if (error) {
+					add(path, error);
+				}
+			});
+
+			const response: Instance.ValidateResult = {};
+
+			forEach(errors, (errors, path) => {
+				response[path] = size(errors) > 1 ? errors : errors[0];
+			});
+
+			return response;
+		});
+};
+
+// worker side of the protocol: validates posted values with the schema and/or validate function, answering with error maps
+const exposeValidation = (
+	options: ValidationWorker.Options,
+	scope: ValidationWorker.Port = globalThis as unknown as ValidationWorker.Port
+) => {
+	const listener: ValidationWorker.Listener = event => {
+		const { seq, type, value } = (event.data || {}) as ValidationWorker.Request;
+
+		if (type !== 'validate') {
+			return;
+		}
+
+		runValidation(options, value).then(
+			errors => {
+				scope.postMessage({ errors, seq } as ValidationWorker.Response);
+			},
+			error => {
+				scope.postMessage({ error: String(error?.message || error), seq } as ValidationWorker.Response);
+			}
+		);
+	};
+
+	scope.addEventListener('message', listener);
+
+	return () => {
+		scope.removeEventListener('message', listener);
+	};
+};
+
+// worker stand-in running on the main thread, for tests and environments without workers
+const createLocalWorker = (setup: (scope: ValidationWorker.Port) => void): ValidationWorker.Port & { terminate: () => void } => {
+	const listeners = { main: new Set<ValidationWorker.Listener>(), worker: new Set<ValidationWorker.Listener>() };
+	let terminated = false;
+
+	const dispatch = (target: Set<ValidationWorker.Listener>, message: unknown) => {
+		// messages are delivered asynchronously and cloned, as structured clone would do
+		const data = structuredClone(message);
+
+		setTimeout(() => {
+			if (!terminated) {
+				target.forEach(listener => {
+					listener({ data });
+				});
+			}
+		}, 0);
+	};
+
+	setup({
+		addEventListener: (_, listener) => {
+			listeners.worker.add(listener);
+		},
+		postMessage: message => {
+			dispatch(listeners.main, message);
+		},
+		removeEventListener: (_, listener) => {
+			listeners.worker.delete(listener);
+		}
+	});
+
+	return {
+		addEventListener: (_, listener) => {
+			listeners.main.add(listener);
+		},
+		postMessage: message => {
+			dispatch(listeners.worker, message);
+		},
+		removeEventListener: (_, listener) => {
+			listeners.main.delete(listener);
+		},
+		terminate: () => {
+			terminated = true;
+		}
+	};
+};
+
+export { createLocalWorker, exposeValidation };
+export type { ValidationWorker };